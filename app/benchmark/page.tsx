@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, Gauge } from "lucide-react";
+import { BenchmarkSuite } from "@/components/features/benchmark-suite";
+
+export default function BenchmarkPage() {
+  return (
+    <div className="min-h-screen relative overflow-hidden">
+      {/* Navigation */}
+      <nav className="sticky top-0 z-50 backdrop-blur-sm bg-white/80 border-b-2 border-purple-300 shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-700 hover:text-indigo-900">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Super Cipher
+            </Link>
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex items-center gap-3"
+            >
+              <div className="p-3 rounded-xl bg-gradient-to-br from-indigo-600 to-purple-600 shadow-lg">
+                <Gauge className="w-7 h-7 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+                  Benchmarks
+                </h1>
+                <p className="text-sm text-gray-700 font-semibold">Every algorithm and preset, 1 KB to 10 MB</p>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-8">
+        <BenchmarkSuite />
+      </main>
+    </div>
+  );
+}
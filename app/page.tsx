@@ -1,20 +1,26 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
-import { Shield } from "lucide-react";
+import { Gauge, Shield } from "lucide-react";
 import { TypingText } from "@/components/ui/typing-text";
 import { EncryptionPanel } from "@/components/features/encryption-panel";
 import { PerformanceMetricsDisplay } from "@/components/features/performance-metrics";
 import { EncryptionHistory } from "@/components/features/encryption-history";
+import { OpenSslInterop } from "@/components/features/openssl-interop";
+import { CryptanalysisLab } from "@/components/features/cryptanalysis-lab";
+import { FrequencyAnalysis } from "@/components/features/frequency-analysis";
 import { PerformanceMetrics, HistoryEntry } from "@/lib/crypto/types";
+import { addHistoryEntry } from "@/lib/history";
+import { FrequencySample } from "@/lib/crypto/frequency";
 
 export default function Home() {
   const [currentMetrics, setCurrentMetrics] = useState<PerformanceMetrics | null>(null);
   const [metricsHistory, setMetricsHistory] = useState<
     Array<{ timestamp: number; time: number; throughput: number }>
   >([]);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [frequencySamples, setFrequencySamples] = useState<FrequencySample[]>([]);
 
   const handlePerformanceUpdate = (metrics: PerformanceMetrics) => {
     setCurrentMetrics(metrics);
@@ -29,11 +35,10 @@ export default function Home() {
   };
 
   const handleHistoryAdd = (entry: HistoryEntry) => {
-    setHistory((prev) => [entry, ...prev].slice(0, 50));
+    addHistoryEntry(entry).catch((error) => console.error("Failed to record history:", error));
   };
 
   const handleClearHistory = () => {
-    setHistory([]);
     setMetricsHistory([]);
     setCurrentMetrics(null);
   };
@@ -43,7 +48,7 @@ export default function Home() {
       {/* Navigation */}
       <nav className="sticky top-0 z-50 backdrop-blur-sm bg-white/80 border-b-2 border-purple-300 shadow-md">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-center">
+          <div className="relative flex items-center justify-center">
             <motion.div
               initial={{ opacity: 0, y: -20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -59,6 +64,13 @@ export default function Home() {
                 <p className="text-sm text-gray-700 font-semibold">Advanced Cryptography System</p>
               </div>
             </motion.div>
+            <Link
+              href="/benchmark"
+              className="absolute right-4 inline-flex items-center gap-2 text-sm font-semibold text-indigo-700 hover:text-indigo-900"
+            >
+              <Gauge className="w-4 h-4" />
+              Benchmarks
+            </Link>
           </div>
         </div>
       </nav>
@@ -87,13 +99,23 @@ export default function Home() {
         <EncryptionPanel
           onPerformanceUpdate={handlePerformanceUpdate}
           onHistoryAdd={handleHistoryAdd}
+          onFrequencySamples={setFrequencySamples}
         />
 
         {/* Performance Metrics */}
         <PerformanceMetricsDisplay metrics={currentMetrics} history={metricsHistory} />
 
+        {/* Frequency Analysis */}
+        <FrequencyAnalysis samples={frequencySamples} />
+
         {/* Encryption History */}
-        <EncryptionHistory history={history} onClear={handleClearHistory} />
+        <EncryptionHistory onClear={handleClearHistory} />
+
+        {/* OpenSSL Interop */}
+        <OpenSslInterop />
+
+        {/* Cryptanalysis Lab */}
+        <CryptanalysisLab />
 
         {/* Features Grid */}
         <motion.div
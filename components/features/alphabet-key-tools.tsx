@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { ALPHABETS, AlphabetId, parseAlphabetKey } from "@/lib/crypto/alphabet";
+import { CaesarCipher } from "@/lib/crypto/caesar";
+import { VigenereCipher, VigenereVariant } from "@/lib/crypto/vigenere";
+import { SecurityMode } from "@/lib/crypto/types";
+
+export type AlphabetCipher = "caesar" | VigenereVariant;
+
+export const ALPHABET_CIPHERS: AlphabetCipher[] = ["caesar", "vigenere", "beaufort", "autokey"];
+
+interface AlphabetKeyToolsProps {
+  algorithm: AlphabetCipher;
+  // The layer key, or "" when the layer has no key yet
+  value: string;
+  securityMode: SecurityMode;
+  onChange: (key: string) => void;
+  disabled?: boolean;
+}
+
+const caesar = new CaesarCipher();
+
+// Picks the alphabet a substitution layer shifts over and generates a key recorded in it
+export function AlphabetKeyTools({ algorithm, value, securityMode, onChange, disabled = false }: AlphabetKeyToolsProps) {
+  const [alphabetId, setAlphabetId] = useState<AlphabetId>(parseAlphabetKey(value).alphabet.id);
+
+  const generate = () => {
+    const alphabet = ALPHABETS[alphabetId];
+    if (algorithm === "caesar") {
+      onChange(caesar.formatKey(caesar.generateKey(securityMode, undefined, alphabet), alphabet));
+    } else {
+      const cipher = new VigenereCipher(algorithm);
+      onChange(cipher.generateKey(cipher.getKeyLength(securityMode), undefined, alphabet));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <select
+        value={alphabetId}
+        onChange={(e) => setAlphabetId(e.target.value as AlphabetId)}
+        disabled={disabled}
+        className="px-2 py-1 rounded-lg text-xs bg-white text-gray-900 border border-green-300"
+      >
+        {Object.values(ALPHABETS).map((alphabet) => (
+          <option key={alphabet.id} value={alphabet.id}>
+            {alphabet.name} ({alphabet.size})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={generate}
+        disabled={disabled}
+        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-green-700 border border-green-300 hover:bg-green-50 disabled:opacity-50"
+      >
+        <RefreshCw className="w-3.5 h-3.5" />
+        New key
+      </button>
+      {alphabetId === "bytes" && (
+        <span className="text-xs text-gray-600">Shifts every UTF-8 byte; text output is base64</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+"use client";
+
+import { useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import { Download, Gauge, Play, Square } from "lucide-react";
+import { CryptoWorkerClient } from "@/lib/crypto/worker-client";
+import { CancelledError } from "@/lib/crypto/errors";
+import { cipherRegistry } from "@/lib/crypto/ciphers";
+import { SecurityMode } from "@/lib/crypto/types";
+import {
+  BENCHMARK_SIZES,
+  BenchmarkResult,
+  BenchmarkStats,
+  BenchmarkSubject,
+  benchmarkToCsv,
+  benchmarkToJson,
+  summarizeSamples,
+} from "@/lib/crypto/benchmark";
+import { BUILT_IN_PRESETS, loadPresets, subscribePresets } from "@/lib/presets";
+import { formatBytes, formatTime } from "@/lib/utils";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+const cryptoWorker = new CryptoWorkerClient();
+const ciphers = cipherRegistry.list();
+
+type Metric = "time" | "throughput";
+type Operation = "encrypt" | "decrypt";
+type Statistic = keyof BenchmarkStats;
+
+const STATISTICS: { value: Statistic; label: string }[] = [
+  { value: "mean", label: "Mean" },
+  { value: "p95", label: "p95" },
+  { value: "stddev", label: "Std dev" },
+];
+
+const COLORS = ["#8b5cf6", "#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#06b6d4", "#111827", "#84cc16", "#f97316"];
+
+const statsOf = (result: BenchmarkResult, metric: Metric, operation: Operation): BenchmarkStats =>
+  metric === "time"
+    ? operation === "encrypt"
+      ? result.encryptTime
+      : result.decryptTime
+    : operation === "encrypt"
+      ? result.encryptThroughput
+      : result.decryptThroughput;
+
+const formatMetric = (value: number, metric: Metric) => (metric === "time" ? formatTime(value) : `${formatBytes(value)}/s`);
+
+// Runs every selected algorithm and preset over a sweep of payload sizes in the crypto worker
+export function BenchmarkSuite() {
+  const presets = useSyncExternalStore(subscribePresets, loadPresets, () => BUILT_IN_PRESETS);
+  const [securityMode, setSecurityMode] = useState<SecurityMode>("balanced");
+  const [algorithms, setAlgorithms] = useState(() => new Set(ciphers.map((cipher) => cipher.id)));
+  const [presetNames, setPresetNames] = useState(() => new Set(BUILT_IN_PRESETS.map((preset) => preset.name)));
+  const [sizes, setSizes] = useState(() => new Set(BENCHMARK_SIZES));
+  const [warmup, setWarmup] = useState(1);
+  const [trials, setTrials] = useState(5);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number; current: string } | null>(null);
+  const [metric, setMetric] = useState<Metric>("time");
+  const [operation, setOperation] = useState<Operation>("encrypt");
+  const [statistic, setStatistic] = useState<Statistic>("mean");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const toggle = <T,>(set: Set<T>, value: T, update: (next: Set<T>) => void) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    update(next);
+  };
+
+  const subjects: BenchmarkSubject[] = [
+    ...ciphers
+      .filter((cipher) => algorithms.has(cipher.id))
+      .map((cipher) => ({ kind: "algorithm" as const, label: cipher.name, algorithms: [cipher.id], securityMode })),
+    ...presets
+      .filter((preset) => presetNames.has(preset.name))
+      .map((preset) => ({
+        kind: "preset" as const,
+        label: `Preset: ${preset.name}`,
+        algorithms: preset.algorithms,
+        securityMode: preset.securityMode,
+      })),
+  ];
+  const sweep = BENCHMARK_SIZES.filter((size) => sizes.has(size));
+
+  const runBenchmark = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const total = subjects.length * sweep.length;
+    setResults([]);
+    setFailures([]);
+
+    try {
+      let completed = 0;
+      for (const subject of subjects) {
+        for (const size of sweep) {
+          setProgress({ completed, total, current: `${subject.label}, ${formatBytes(size)}` });
+          try {
+            const samples = await cryptoWorker.benchmark(subject.algorithms, subject.securityMode, size, warmup, trials, {
+              signal: controller.signal,
+            });
+            setResults((prev) => [...prev, summarizeSamples(subject, size, samples)]);
+          } catch (error) {
+            if (error instanceof CancelledError) throw error;
+            // A failing subject (e.g. a text-only key) should not stop the rest of the sweep
+            setFailures((prev) => [...prev, `${subject.label}, ${formatBytes(size)}: ${(error as Error).message}`]);
+          }
+          completed++;
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        alert(`Benchmark failed: ${(error as Error).message}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const download = (content: string, type: string, extension: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `benchmark-${Date.now()}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // One row per payload size, one column per subject
+  const chart = useMemo(() => {
+    const labels = [...new Set(results.map((result) => result.subject.label))];
+    const data = BENCHMARK_SIZES.filter((size) => results.some((result) => result.size === size)).map((size) => ({
+      size: formatBytes(size),
+      ...Object.fromEntries(
+        results
+          .filter((result) => result.size === size)
+          .map((result) => [result.subject.label, statsOf(result, metric, operation)[statistic]])
+      ),
+    }));
+    return { labels, data };
+  }, [results, metric, operation, statistic]);
+
+  const isRunning = progress !== null;
+  const selectClass = "px-3 py-2 rounded-lg text-sm bg-white text-gray-900 border border-gray-300";
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass dark:glass-dark rounded-2xl p-6 shadow-xl space-y-5"
+      >
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-br from-indigo-600 to-purple-600">
+            <Gauge className="w-5 h-5 text-white" />
+          </div>
+          <h3 className="text-lg font-semibold">Benchmark Suite</h3>
+        </div>
+        <p className="text-sm opacity-70">
+          Each run encrypts and decrypts random bytes through the binary pipeline. Keys are generated before timing
+          starts and warm-up runs are discarded. Large payloads with slow classical layers can take minutes.
+        </p>
+
+        <div>
+          <div className="text-sm font-semibold mb-2">Algorithms</div>
+          <div className="flex flex-wrap gap-2">
+            {ciphers.map((cipher) => (
+              <label key={cipher.id} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-gray-200 text-sm">
+                <input
+                  type="checkbox"
+                  checked={algorithms.has(cipher.id)}
+                  onChange={() => toggle(algorithms, cipher.id, setAlgorithms)}
+                  disabled={isRunning}
+                />
+                {cipher.icon} {cipher.name}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 mt-2 text-sm">
+            Security mode for single algorithms
+            <select
+              value={securityMode}
+              onChange={(e) => setSecurityMode(e.target.value as SecurityMode)}
+              disabled={isRunning}
+              className={selectClass}
+            >
+              <option value="high">High</option>
+              <option value="balanced">Balanced</option>
+              <option value="lightweight">Lightweight</option>
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <div className="text-sm font-semibold mb-2">Presets</div>
+          <div className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <label key={preset.name} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-gray-200 text-sm">
+                <input
+                  type="checkbox"
+                  checked={presetNames.has(preset.name)}
+                  onChange={() => toggle(presetNames, preset.name, setPresetNames)}
+                  disabled={isRunning}
+                />
+                {preset.name} ({preset.algorithms.length} layers)
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <div className="text-sm font-semibold mb-2">Payload sizes</div>
+            <div className="flex flex-wrap gap-2">
+              {BENCHMARK_SIZES.map((size) => (
+                <label key={size} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-gray-200 text-sm">
+                  <input type="checkbox" checked={sizes.has(size)} onChange={() => toggle(sizes, size, setSizes)} disabled={isRunning} />
+                  {formatBytes(size)}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="text-sm">
+            <div className="font-semibold mb-2">Warm-up runs</div>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={warmup}
+              onChange={(e) => setWarmup(Math.max(0, Math.min(10, Number(e.target.value) || 0)))}
+              disabled={isRunning}
+              className={`${selectClass} w-20`}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="font-semibold mb-2">Trials</div>
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={trials}
+              onChange={(e) => setTrials(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+              disabled={isRunning}
+              className={`${selectClass} w-20`}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="inline-flex items-center gap-2 px-5 py-2 rounded-xl font-semibold text-white bg-red-600 hover:bg-red-700"
+            >
+              <Square className="w-4 h-4" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={runBenchmark}
+              disabled={subjects.length === 0 || sweep.length === 0}
+              className="inline-flex items-center gap-2 px-5 py-2 rounded-xl font-semibold text-white bg-gradient-to-r from-indigo-600 to-purple-600 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              Run {subjects.length * sweep.length} benchmarks
+            </button>
+          )}
+          <button
+            onClick={() => download(benchmarkToCsv(results), "text/csv", "csv")}
+            disabled={results.length === 0 || isRunning}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold bg-white text-gray-800 border border-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => download(benchmarkToJson(results, { warmup, trials }), "application/json", "json")}
+            disabled={results.length === 0 || isRunning}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold bg-white text-gray-800 border border-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          {progress && (
+            <span className="text-sm opacity-70">
+              {progress.completed + 1} of {progress.total}: {progress.current}
+            </span>
+          )}
+        </div>
+
+        {failures.length > 0 && (
+          <div className="p-3 bg-amber-50 rounded-xl border-2 border-amber-200 text-sm text-amber-800 space-y-1">
+            {failures.map((failure) => (
+              <p key={failure}>⚠️ {failure}</p>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      {results.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass dark:glass-dark rounded-2xl p-6 shadow-xl space-y-4"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold">Results</h3>
+            <div className="flex flex-wrap gap-2">
+              <select value={metric} onChange={(e) => setMetric(e.target.value as Metric)} className={selectClass}>
+                <option value="time">Time</option>
+                <option value="throughput">Throughput</option>
+              </select>
+              <select value={operation} onChange={(e) => setOperation(e.target.value as Operation)} className={selectClass}>
+                <option value="encrypt">Encryption</option>
+                <option value="decrypt">Decryption</option>
+              </select>
+              <select value={statistic} onChange={(e) => setStatistic(e.target.value as Statistic)} className={selectClass}>
+                {STATISTICS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={350}>
+            <LineChart data={chart.data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis dataKey="size" stroke="currentColor" style={{ fontSize: "12px" }} />
+              <YAxis
+                scale="log"
+                domain={["auto", "auto"]}
+                allowDataOverflow
+                stroke="currentColor"
+                style={{ fontSize: "12px" }}
+                tickFormatter={(value: number) => formatMetric(value, metric)}
+                width={90}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "rgba(0,0,0,0.8)",
+                  border: "1px solid rgba(255,255,255,0.2)",
+                  borderRadius: "8px",
+                }}
+                formatter={(value: number) => formatMetric(value, metric)}
+              />
+              <Legend />
+              {chart.labels.map((label, i) => (
+                <Line
+                  key={label}
+                  type="monotone"
+                  dataKey={label}
+                  stroke={COLORS[i % COLORS.length]}
+                  strokeWidth={2}
+                  strokeDasharray={label.startsWith("Preset:") ? "5 5" : undefined}
+                  dot={{ r: 3 }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="opacity-70 text-left">
+                  <th className="p-2">Subject</th>
+                  <th className="p-2">Size</th>
+                  <th className="p-2">Mean</th>
+                  <th className="p-2">p95</th>
+                  <th className="p-2">Std dev</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => {
+                  const stats = statsOf(result, metric, operation);
+                  return (
+                    <tr key={`${result.subject.label}-${result.size}`} className="border-t border-gray-200">
+                      <td className="p-2 font-semibold">{result.subject.label}</td>
+                      <td className="p-2">{formatBytes(result.size)}</td>
+                      <td className="p-2">{formatMetric(stats.mean, metric)}</td>
+                      <td className="p-2">{formatMetric(stats.p95, metric)}</td>
+                      <td className="p-2">{formatMetric(stats.stddev, metric)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Search } from "lucide-react";
+import {
+  CaesarCandidate,
+  VigenereRecovery,
+  HillRecovery,
+  bruteForceCaesar,
+  breakVigenere,
+  recoverHillKey,
+} from "@/lib/crypto/cryptanalysis";
+import { HILL_MIN_SIZE, HILL_MAX_SIZE } from "@/lib/crypto/hill";
+
+type Attack = "caesar" | "vigenere" | "hill";
+
+const attacks: { value: Attack; label: string; description: string }[] = [
+  { value: "caesar", label: "Caesar", description: "Tries all 25 shifts and ranks them by English letter frequencies" },
+  { value: "vigenere", label: "Vigenère", description: "Finds the key length with Kasiski and Friedman, then each key letter" },
+  { value: "hill", label: "Hill", description: "Solves for the key matrix from the known start of the message" },
+];
+
+const SIZES = Array.from({ length: HILL_MAX_SIZE - HILL_MIN_SIZE + 1 }, (_, i) => HILL_MIN_SIZE + i);
+
+// Breaks ciphertext from the Caesar, Vigenère and Hill layers; the attacks run on their own, not as a layer
+export function CryptanalysisLab() {
+  const [attack, setAttack] = useState<Attack>("caesar");
+  const [ciphertext, setCiphertext] = useState("");
+  const [knownPlaintext, setKnownPlaintext] = useState("");
+  const [hillSize, setHillSize] = useState(2);
+  const [hillMode, setHillMode] = useState<"classic" | "binary">("classic");
+  const [caesarResult, setCaesarResult] = useState<CaesarCandidate[] | null>(null);
+  const [vigenereResult, setVigenereResult] = useState<VigenereRecovery | null>(null);
+  const [hillResult, setHillResult] = useState<HillRecovery | null>(null);
+
+  const clearResults = () => {
+    setCaesarResult(null);
+    setVigenereResult(null);
+    setHillResult(null);
+  };
+
+  const handleRun = () => {
+    clearResults();
+    try {
+      switch (attack) {
+        case "caesar":
+          setCaesarResult(bruteForceCaesar(ciphertext));
+          break;
+        case "vigenere":
+          setVigenereResult(breakVigenere(ciphertext));
+          break;
+        case "hill":
+          setHillResult(recoverHillKey(knownPlaintext, ciphertext, hillSize, hillMode));
+          break;
+      }
+    } catch (error) {
+      alert(`❌ Attack failed!\n\n${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass p-6 rounded-2xl space-y-4"
+    >
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-r from-amber-500 to-red-500 rounded-xl">
+          <Search className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-black">Cryptanalysis Lab</h3>
+          <p className="text-sm text-gray-600">{attacks.find((option) => option.value === attack)!.description}</p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {attacks.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => {
+              setAttack(option.value);
+              clearResults();
+            }}
+            className={`flex-1 px-4 py-2 rounded-xl font-semibold ${
+              attack === option.value ? "bg-gradient-to-r from-amber-500 to-red-500 text-white" : "bg-white text-gray-800 border-2 border-gray-300"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={ciphertext}
+        onChange={(e) => setCiphertext(e.target.value)}
+        placeholder={attack === "hill" && hillMode === "binary" ? "Paste hill256: ciphertext..." : "Paste ciphertext..."}
+        className="w-full h-28 px-4 py-3 rounded-xl bg-white text-gray-900 border-2 border-gray-300 font-mono text-sm resize-none"
+      />
+
+      {attack === "hill" && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={knownPlaintext}
+            onChange={(e) => setKnownPlaintext(e.target.value)}
+            placeholder={`Known start of the message (${hillSize * hillSize}+ ${hillMode === "binary" ? "bytes" : "letters"})`}
+            className="md:col-span-2 px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+          />
+          <div className="flex gap-2">
+            <select
+              value={hillMode}
+              onChange={(e) => setHillMode(e.target.value as "classic" | "binary")}
+              className="flex-1 px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+            >
+              <option value="classic">Classic A–Z</option>
+              <option value="binary">Binary</option>
+            </select>
+            <select
+              value={hillSize}
+              onChange={(e) => setHillSize(Number(e.target.value))}
+              className="px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+            >
+              {SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}×{size}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={handleRun}
+        disabled={!ciphertext || (attack === "hill" && !knownPlaintext)}
+        className="w-full px-4 py-2 rounded-xl font-semibold bg-gradient-to-r from-amber-500 to-red-500 text-white disabled:opacity-50"
+      >
+        Run Attack
+      </button>
+
+      {caesarResult && (
+        <div className="max-h-72 overflow-auto bg-white rounded-xl border-2 border-gray-300 divide-y divide-gray-200">
+          {caesarResult.map((candidate, index) => (
+            <div key={candidate.shift} className={`p-3 text-sm ${index === 0 ? "bg-green-50" : ""}`}>
+              <div className="flex justify-between text-xs font-semibold text-gray-600 mb-1">
+                <span>{candidate.key}</span>
+                <span>log-likelihood {candidate.score.toFixed(1)}</span>
+              </div>
+              <p className="font-mono text-gray-900 break-all">{candidate.plaintext.slice(0, 200)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {vigenereResult && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-3 bg-white rounded-xl border-2 border-gray-300">
+              <p className="text-xs text-gray-600 font-semibold">Recovered key</p>
+              <p className="font-mono font-bold text-gray-900 break-all">{vigenereResult.key}</p>
+            </div>
+            <div className="p-3 bg-white rounded-xl border-2 border-gray-300">
+              <p className="text-xs text-gray-600 font-semibold">Friedman estimate</p>
+              <p className="font-mono font-bold text-gray-900">{vigenereResult.friedmanEstimate.toFixed(1)} letters</p>
+            </div>
+          </div>
+          <div className="max-h-48 overflow-auto bg-white rounded-xl border-2 border-gray-300">
+            <table className="w-full text-xs text-gray-900">
+              <thead>
+                <tr className="text-gray-600">
+                  <th className="p-2 text-left">Key length</th>
+                  <th className="p-2 text-left">Column IC</th>
+                  <th className="p-2 text-left">Kasiski votes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vigenereResult.candidates.map((candidate) => (
+                  <tr
+                    key={candidate.length}
+                    className={candidate.length === vigenereResult.key.length ? "bg-green-50 font-semibold" : ""}
+                  >
+                    <td className="p-2">{candidate.length}</td>
+                    <td className="p-2">{candidate.columnIc.toFixed(4)}</td>
+                    <td className="p-2">{candidate.kasiskiVotes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <pre className="p-4 bg-white rounded-xl border-2 border-gray-300 text-sm text-gray-900 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+            {vigenereResult.plaintext}
+          </pre>
+        </div>
+      )}
+
+      {hillResult && (
+        <div className="space-y-3">
+          <div className="p-3 bg-white rounded-xl border-2 border-gray-300">
+            <p className="text-xs text-gray-600 font-semibold">
+              Recovered key (from known blocks {hillResult.blocksUsed.map((block) => block + 1).join(", ")})
+            </p>
+            <code className="text-sm font-mono text-gray-900 break-all">{hillResult.keyString}</code>
+          </div>
+          <pre className="p-4 bg-white rounded-xl border-2 border-gray-300 text-sm text-gray-900 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+            {hillResult.plaintext ?? "The key fits the known plaintext, but the whole ciphertext does not decrypt with it"}
+          </pre>
+        </div>
+      )}
+    </motion.div>
+  );
+}
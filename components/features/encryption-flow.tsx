@@ -2,33 +2,19 @@
 
 import { motion } from "framer-motion";
 import { Shield, Key, Lock, ArrowRight, CheckCircle2 } from "lucide-react";
-import { CipherAlgorithm, EncryptionLayer } from "@/lib/crypto/types";
+import { EncryptionLayer, PerformanceMetrics } from "@/lib/crypto/types";
+import { cipherRegistry } from "@/lib/crypto/ciphers";
+import { formatBytes, formatTime } from "@/lib/utils";
 
 interface EncryptionFlowProps {
   layers: EncryptionLayer[];
+  // Same order as `layers`
+  metrics?: PerformanceMetrics[];
   isEncrypting?: boolean;
   currentStep?: number;
 }
 
-const algorithmIcons: Record<CipherAlgorithm, string> = {
-  aes: "🔐",
-  rsa: "🔑",
-  hill: "📊",
-  vigenere: "📝",
-  blowfish: "🐡",
-  caesar: "🏛️",
-};
-
-const algorithmColors: Record<CipherAlgorithm, string> = {
-  aes: "from-blue-500 to-cyan-500",
-  rsa: "from-purple-500 to-pink-500",
-  hill: "from-green-500 to-emerald-500",
-  vigenere: "from-orange-500 to-amber-500",
-  blowfish: "from-indigo-500 to-violet-500",
-  caesar: "from-red-500 to-rose-500",
-};
-
-export function EncryptionFlow({ layers, isEncrypting = false, currentStep = 0 }: EncryptionFlowProps) {
+export function EncryptionFlow({ layers, metrics = [], isEncrypting = false, currentStep = 0 }: EncryptionFlowProps) {
   if (layers.length === 0) return null;
 
   return (
@@ -51,6 +37,7 @@ export function EncryptionFlow({ layers, isEncrypting = false, currentStep = 0 }
         {layers.map((layer, index) => {
           const isActive = isEncrypting && index === currentStep;
           const isComplete = isEncrypting ? index < currentStep : false;
+          const layerMetrics = metrics[index];
 
           return (
             <div key={`${layer.algorithm}-${layer.order}`}>
@@ -82,10 +69,10 @@ export function EncryptionFlow({ layers, isEncrypting = false, currentStep = 0 }
                   {/* Algorithm Icon */}
                   <div
                     className={`p-3 bg-gradient-to-br ${
-                      algorithmColors[layer.algorithm]
+                      cipherRegistry.get(layer.algorithm).color
                     } rounded-xl text-2xl shadow-md`}
                   >
-                    {algorithmIcons[layer.algorithm]}
+                    {cipherRegistry.get(layer.algorithm).icon}
                   </div>
 
                   {/* Algorithm Details */}
@@ -117,6 +104,19 @@ export function EncryptionFlow({ layers, isEncrypting = false, currentStep = 0 }
                           : layer.key}
                       </code>
                     </div>
+
+                    {/* Sizes and phase timings */}
+                    {layerMetrics && (
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+                        <span>
+                          {formatBytes(layerMetrics.dataSize)} → {formatBytes(layerMetrics.outputSize)} (×
+                          {layerMetrics.expansionRatio.toFixed(2)})
+                        </span>
+                        <span>KDF {formatTime(layerMetrics.phases.kdf)}</span>
+                        <span>Cipher {formatTime(layerMetrics.phases.cipher)}</span>
+                        <span>Encoding {formatTime(layerMetrics.phases.encoding)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -1,30 +1,133 @@
 "use client";
 
+import { useEffect, useId, useState } from "react";
 import { motion } from "framer-motion";
-import { Lock, Unlock, Trash2, Clock } from "lucide-react";
-import { HistoryEntry } from "@/lib/crypto/types";
+import { Lock, Unlock, Trash2, Clock, X, Download, Upload, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { HistoryEntry, SecurityMode } from "@/lib/crypto/types";
+import { cipherRegistry } from "@/lib/crypto/ciphers";
+import {
+  HistoryFilter,
+  clearHistory,
+  deleteHistoryEntry,
+  findHistory,
+  historyToCsv,
+  historyToJson,
+  importHistory,
+  queryHistory,
+  subscribeHistory,
+} from "@/lib/history";
 import { formatTime, formatBytes } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 
+const PAGE_SIZE = 10;
+
 interface EncryptionHistoryProps {
-  history: HistoryEntry[];
   onClear: () => void;
 }
 
-export function EncryptionHistory({ history, onClear }: EncryptionHistoryProps) {
-  if (history.length === 0) {
-    return (
-      <motion.div
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        className="glass dark:glass-dark rounded-2xl p-8 shadow-xl text-center"
-      >
-        <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
-        <p className="text-lg opacity-70">No encryption history yet</p>
-        <p className="text-sm opacity-50 mt-2">Your encryption operations will appear here</p>
-      </motion.div>
-    );
-  }
+// Browses the history stored in IndexedDB; the panel records entries through lib/history
+export function EncryptionHistory({ onClear }: EncryptionHistoryProps) {
+  const importId = useId();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [algorithm, setAlgorithm] = useState("");
+  const [securityMode, setSecurityMode] = useState<SecurityMode | "">("");
+  const [outcome, setOutcome] = useState<"" | "success" | "failed">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  // Date inputs are local calendar days; `to` covers the whole of its day
+  const filter: HistoryFilter = {
+    algorithm: algorithm || undefined,
+    securityMode: securityMode || undefined,
+    success: outcome === "" ? undefined : outcome === "success",
+    from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+    search,
+  };
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => subscribeHistory(() => setRevision((value) => value + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryHistory(JSON.parse(filterKey), page, PAGE_SIZE)
+      .then((result) => {
+        if (cancelled) return;
+        // Deleting the last entry of the last page steps back a page
+        if (result.entries.length === 0 && page > 0) {
+          setPage(Math.max(0, Math.ceil(result.total / PAGE_SIZE) - 1));
+          return;
+        }
+        setEntries(result.entries);
+        setTotal(result.total);
+      })
+      .catch((error) => {
+        if (!cancelled) setStatus((error as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey, page, revision]);
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearHistory();
+      onClear();
+    } catch (error) {
+      setStatus(`Clearing history failed: ${(error as Error).message}`);
+    }
+  };
+
+  // Exports every entry matching the filters, not just the current page
+  const handleExport = async (format: "json" | "csv") => {
+    let matching: HistoryEntry[];
+    try {
+      matching = await findHistory(filter);
+    } catch (error) {
+      setStatus(`Export failed: ${(error as Error).message}`);
+      return;
+    }
+    const content = format === "json" ? historyToJson(matching) : historyToCsv(matching);
+    const url = URL.createObjectURL(new Blob([content], { type: format === "json" ? "application/json" : "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `encryption-history-${Date.now()}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (error) {
+      setStatus(`Deleting the entry failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = await importHistory(await file.text());
+      setStatus(`Imported ${count} ${count === 1 ? "entry" : "entries"}`);
+    } catch (error) {
+      setStatus(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const filtered = Object.values(filter).some((value) => value !== undefined && value !== "");
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const fieldClass = "px-3 py-2 rounded-lg text-sm bg-white text-gray-900 border border-gray-300";
+  const actionClass =
+    "px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 flex items-center gap-2 text-sm transition-all cursor-pointer";
 
   return (
     <motion.div
@@ -32,76 +135,227 @@ export function EncryptionHistory({ history, onClear }: EncryptionHistoryProps)
       animate={{ opacity: 1, y: 0 }}
       className="glass dark:glass-dark rounded-2xl p-6 shadow-xl"
     >
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
         <h3 className="text-lg font-semibold">Encryption History</h3>
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={onClear}
-          className="px-4 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-500 flex items-center gap-2 transition-all"
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => handleExport("json")} disabled={total === 0} className={cn(actionClass, "disabled:opacity-50")}>
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          <button onClick={() => handleExport("csv")} disabled={total === 0} className={cn(actionClass, "disabled:opacity-50")}>
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <input
+            type="file"
+            id={importId}
+            accept=".json,.csv,application/json,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+          <label htmlFor={importId} className={actionClass}>
+            <Upload className="w-4 h-4" />
+            Import
+          </label>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleClear}
+            className="px-4 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-500 flex items-center gap-2 transition-all"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear All
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => updateFilter(setSearch)(e.target.value)}
+            placeholder="Search algorithm, mode, error..."
+            className={cn(fieldClass, "w-full pl-9")}
+          />
+        </div>
+        <select value={algorithm} onChange={(e) => updateFilter(setAlgorithm)(e.target.value)} className={fieldClass}>
+          <option value="">All algorithms</option>
+          {cipherRegistry.list().map((cipher) => (
+            <option key={cipher.id} value={cipher.id}>
+              {cipher.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={securityMode}
+          onChange={(e) => updateFilter(setSecurityMode)(e.target.value as SecurityMode | "")}
+          className={fieldClass}
+        >
+          <option value="">All modes</option>
+          <option value="high">High</option>
+          <option value="balanced">Balanced</option>
+          <option value="lightweight">Lightweight</option>
+        </select>
+        <select
+          value={outcome}
+          onChange={(e) => updateFilter(setOutcome)(e.target.value as "" | "success" | "failed")}
+          className={fieldClass}
         >
-          <Trash2 className="w-4 h-4" />
-          Clear All
-        </motion.button>
+          <option value="">Any outcome</option>
+          <option value="success">Success</option>
+          <option value="failed">Failed</option>
+        </select>
+        <input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => updateFilter(setFrom)(e.target.value)}
+          aria-label="From date"
+          className={fieldClass}
+        />
+        <input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => updateFilter(setTo)(e.target.value)}
+          aria-label="To date"
+          className={fieldClass}
+        />
       </div>
 
-      <div className="space-y-3 max-h-96 overflow-y-auto">
-        {history.map((entry, index) => (
-          <motion.div
-            key={entry.id}
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: index * 0.05 }}
-            className={cn(
-              "p-4 rounded-xl backdrop-blur-sm border transition-all hover:scale-[1.02]",
-              entry.type === "encrypt"
-                ? "bg-purple-500/10 border-purple-500/30"
-                : "bg-blue-500/10 border-blue-500/30"
-            )}
-          >
-            <div className="flex items-center gap-3">
-              <div
-                className={cn(
-                  "p-2 rounded-lg",
-                  entry.type === "encrypt" ? "bg-purple-500/20" : "bg-blue-500/20"
-                )}
-              >
-                {entry.type === "encrypt" ? (
-                  <Lock className="w-5 h-5 text-purple-400" />
-                ) : (
-                  <Unlock className="w-5 h-5 text-blue-400" />
-                )}
-              </div>
+      {status && (
+        <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-lg bg-white/10 text-sm">
+          <span>{status}</span>
+          <button onClick={() => setStatus(null)} aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
 
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-1">
-                  <span className="font-semibold capitalize">{entry.type}</span>
-                  <span className="px-2 py-0.5 rounded-full bg-white/10 text-xs font-mono uppercase">
-                    {entry.algorithm}
-                  </span>
+      {entries.length === 0 ? (
+        <div className="p-8 text-center">
+          <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p className="text-lg opacity-70">{filtered ? "No operations match these filters" : "No encryption history yet"}</p>
+          <p className="text-sm opacity-50 mt-2">
+            {filtered ? "Try widening the search or date range" : "Your encryption operations will appear here"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {entries.map((entry, index) => (
+            <motion.div
+              key={entry.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={cn(
+                "p-4 rounded-xl backdrop-blur-sm border transition-all hover:scale-[1.02]",
+                entry.type === "encrypt"
+                  ? "bg-purple-500/10 border-purple-500/30"
+                  : "bg-blue-500/10 border-blue-500/30"
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <div
+                  className={cn(
+                    "p-2 rounded-lg",
+                    entry.type === "encrypt" ? "bg-purple-500/20" : "bg-blue-500/20"
+                  )}
+                >
+                  {entry.type === "encrypt" ? (
+                    <Lock className="w-5 h-5 text-purple-400" />
+                  ) : (
+                    <Unlock className="w-5 h-5 text-blue-400" />
+                  )}
                 </div>
 
-                <div className="flex items-center gap-4 text-sm opacity-70">
-                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
-                  <span>{formatBytes(entry.inputSize)}</span>
-                  <span>{formatTime(entry.metrics.encryptionTime)}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-semibold capitalize">{entry.type}</span>
+                    {(entry.layers && entry.layers.length > 0 ? entry.layers.map((layer) => layer.algorithm) : [entry.algorithm]).map(
+                      (id, position) => (
+                        <span key={position} className="px-2 py-0.5 rounded-full bg-white/10 text-xs font-mono uppercase">
+                          {id}
+                        </span>
+                      )
+                    )}
+                    {entry.securityMode && <span className="text-xs capitalize opacity-70">{entry.securityMode}</span>}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-x-4 text-sm opacity-70">
+                    <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                    <span>{formatBytes(entry.inputSize)}</span>
+                    {entry.metrics && (
+                      <>
+                        <span>{formatTime(entry.metrics.encryptionTime)}</span>
+                        <span>×{entry.metrics.expansionRatio.toFixed(2)}</span>
+                        <span>
+                          KDF {formatTime(entry.metrics.phases.kdf)} · cipher {formatTime(entry.metrics.phases.cipher)} ·
+                          encoding {formatTime(entry.metrics.phases.encoding)}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                  {entry.error && <p className="text-sm text-red-400 mt-1 truncate">{entry.error}</p>}
                 </div>
-              </div>
 
-              <div
-                className={cn(
-                  "px-3 py-1 rounded-full text-xs font-semibold",
-                  entry.success
-                    ? "bg-green-500/20 text-green-400"
-                    : "bg-red-500/20 text-red-400"
-                )}
-              >
-                {entry.success ? "Success" : "Failed"}
+                <div
+                  className={cn(
+                    "px-3 py-1 rounded-full text-xs font-semibold",
+                    entry.success
+                      ? "bg-green-500/20 text-green-400"
+                      : "bg-red-500/20 text-red-400"
+                  )}
+                >
+                  {entry.success ? "Success" : "Failed"}
+                </div>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  aria-label="Delete entry"
+                  className="p-1 rounded-lg opacity-50 hover:opacity-100 hover:bg-red-500/20 transition-all"
+                >
+                  <X className="w-4 h-4" />
+                </button>
               </div>
-            </div>
-          </motion.div>
-        ))}
-      </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <span className="opacity-70">
+            {page * PAGE_SIZE + 1}–{Math.min(total, (page + 1) * PAGE_SIZE)} of {total}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              aria-label="Previous page"
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              Page {page + 1} of {pages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pages}
+              aria-label="Next page"
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -1,62 +1,232 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Lock, Unlock, Key, Download, Upload, Shield, Layers } from "lucide-react";
+import { Lock, Unlock, Key, Download, Upload, Shield, Layers, X, PenLine, ShieldCheck, LucideIcon } from "lucide-react";
 import { EncryptionManager } from "@/lib/crypto/encryption-manager";
-import { CipherAlgorithm, SecurityMode, EncryptionLayer } from "@/lib/crypto/types";
+import { unwrapEnvelope } from "@/lib/crypto/envelope";
+import { PassphraseKeyDerivation } from "@/lib/crypto/passphrase";
+import { StreamingCipher, isStreamHeader } from "@/lib/crypto/stream";
+import { SignatureService, parseSignature } from "@/lib/crypto/signature";
+import { parseRsaKey } from "@/lib/crypto/ciphers/rsa";
+import { utf8Encode } from "@/lib/crypto/encoding";
+import { FrequencySample, FREQUENCY_SAMPLE_SIZE } from "@/lib/crypto/frequency";
+import { CryptoWorkerClient } from "@/lib/crypto/worker-client";
+import { buildMetrics } from "@/lib/crypto/metrics";
+import { AuthenticationError, CancelledError } from "@/lib/crypto/errors";
+import {
+  MIN_KEY_FILE_PASSWORD_LENGTH,
+  isProtectedKeyFile,
+  parseKeyBundle,
+  protectKeyBundle,
+  unprotectKeyBundle,
+} from "@/lib/crypto/key-file";
+import {
+  CipherAlgorithm,
+  SecurityMode,
+  EncryptionLayer,
+  PassphraseParams,
+  PerformanceMetrics,
+  HistoryEntry,
+  PipelineProgress,
+  KeyBundle,
+  ProtectedKeyFile,
+  VerificationResult,
+} from "@/lib/crypto/types";
 import { cn, formatTime, formatBytes } from "@/lib/utils";
 import { EncryptionFlow } from "./encryption-flow";
 import { KeyGenerationInfo } from "./key-generation-info";
+import { FileDropZone } from "./file-drop-zone";
+import { PipelineBuilder } from "./pipeline-builder";
+import { PasswordDialog, PasswordRequest } from "./password-dialog";
+import { RsaKeyTools } from "./rsa-key-tools";
+import { HillKeyTools } from "./hill-key-tools";
+import { AlphabetKeyTools, AlphabetCipher, ALPHABET_CIPHERS } from "./alphabet-key-tools";
 
 const encryptionManager = new EncryptionManager();
+const passphraseDerivation = new PassphraseKeyDerivation(encryptionManager);
+const streamingCipher = new StreamingCipher();
+const signatureService = new SignatureService();
+// Key generation and the layer pipeline run in a worker so the UI stays responsive
+const cryptoWorker = new CryptoWorkerClient();
+
+// Files above this size are streamed through chunked AES-GCM instead of the in-memory layer pipeline
+const STREAMING_THRESHOLD = 32 * 1024 * 1024;
+
+// Cancel aborts either a worker call or a stream pipe; neither is worth an error dialog
+function isCancellation(error: unknown): boolean {
+  return error instanceof CancelledError || (error instanceof DOMException && error.name === "AbortError");
+}
+
+// keys[i] becomes layer i's key; layers without one get an empty key
+function toPipeline(algorithms: CipherAlgorithm[], keys: string[] = []): EncryptionLayer[] {
+  return algorithms.map((algorithm, index) => ({ algorithm, key: keys[index] ?? "", order: index + 1 }));
+}
+
+type PanelMode = "encrypt" | "decrypt" | "sign" | "verify";
+
+const panelModes: { value: PanelMode; label: string; icon: LucideIcon; activeClass: string; idleClass: string }[] = [
+  {
+    value: "encrypt",
+    label: "Encrypt",
+    icon: Lock,
+    activeClass: "from-indigo-600 to-purple-600",
+    idleClass: "hover:bg-indigo-50 border-indigo-200 hover:border-indigo-400",
+  },
+  {
+    value: "decrypt",
+    label: "Decrypt",
+    icon: Unlock,
+    activeClass: "from-purple-600 to-pink-600",
+    idleClass: "hover:bg-purple-50 border-purple-200 hover:border-purple-400",
+  },
+  {
+    value: "sign",
+    label: "Sign",
+    icon: PenLine,
+    activeClass: "from-emerald-600 to-teal-600",
+    idleClass: "hover:bg-emerald-50 border-emerald-200 hover:border-emerald-400",
+  },
+  {
+    value: "verify",
+    label: "Verify",
+    icon: ShieldCheck,
+    activeClass: "from-teal-600 to-cyan-600",
+    idleClass: "hover:bg-teal-50 border-teal-200 hover:border-teal-400",
+  },
+];
 
 interface EncryptionPanelProps {
-  onPerformanceUpdate?: (metrics: any) => void;
-  onHistoryAdd?: (entry: any) => void;
+  onPerformanceUpdate?: (metrics: PerformanceMetrics) => void;
+  onHistoryAdd?: (entry: HistoryEntry) => void;
+  // The start of the plaintext and of every layer's output, after each pipeline encryption
+  onFrequencySamples?: (samples: FrequencySample[]) => void;
 }
 
-export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: EncryptionPanelProps) {
-  const [mode, setMode] = useState<"encrypt" | "decrypt">("encrypt");
+export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd, onFrequencySamples }: EncryptionPanelProps) {
+  const [mode, setMode] = useState<PanelMode>("encrypt");
   const [securityMode, setSecurityMode] = useState<SecurityMode>("balanced");
   const [plaintext, setPlaintext] = useState("");
   const [ciphertext, setCiphertext] = useState("");
-  const [keys, setKeys] = useState<Record<string, string>>({});
+  const [pipeline, setPipeline] = useState<EncryptionLayer[]>(() =>
+    toPipeline(encryptionManager.getRecommendedAlgorithms("balanced"))
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGeneratingKeys, setIsGeneratingKeys] = useState(false);
   const [result, setResult] = useState("");
   const [layers, setLayers] = useState<EncryptionLayer[]>([]);
+  // Metrics of each entry in `layers`, set together with it
+  const [layerMetrics, setLayerMetrics] = useState<PerformanceMetrics[]>([]);
   const [showLayerInfo, setShowLayerInfo] = useState(true);
   const [isSecurityModeLocked, setIsSecurityModeLocked] = useState(false);
+  const [keySource, setKeySource] = useState<"random" | "passphrase">("random");
+  const [passphrase, setPassphrase] = useState("");
+  const [inputFile, setInputFile] = useState<File | null>(null);
+  const [resultFile, setResultFile] = useState<{ blob: Blob; name: string } | null>(null);
+  const [progress, setProgress] = useState<{ value: number; label: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [signatureText, setSignatureText] = useState("");
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null);
+  const passwordResolverRef = useRef<((password: string | null) => void) | null>(null);
+
+  const activeMode = panelModes.find((panelMode) => panelMode.value === mode) ?? panelModes[0];
+  const ActiveModeIcon = activeMode.icon;
 
   const securityModes: { value: SecurityMode; label: string; description: string; layers: number }[] = [
-    { value: "high", label: "High Security", description: "5 layers - Maximum protection", layers: 5 },
-    { value: "balanced", label: "Balanced", description: "3 layers - Optimal performance", layers: 3 },
+    { value: "high", label: "High Security", description: "6 layers - Maximum protection", layers: 6 },
+    { value: "balanced", label: "Balanced", description: "4 layers - Optimal performance", layers: 4 },
     { value: "lightweight", label: "Lightweight", description: "2 layers - Fast encryption", layers: 2 },
   ];
 
-  // Get recommended algorithms for current security mode
-  const selectedAlgorithms = encryptionManager.getRecommendedAlgorithms(securityMode);
+  // The pipeline decides the layers; keys live on its layers so repeated ciphers each get their own
+  const selectedAlgorithms = pipeline.map((layer) => layer.algorithm);
+  const keys = pipeline.map((layer) => layer.key);
+  const hasKeys = keys.some((key) => key !== "");
+  // Streamed files use the key of the first AES layer, signatures the key pair of the first RSA layer
+  const aesKey: string | undefined = keys[selectedAlgorithms.indexOf("aes")] || undefined;
+  const rsaKey: string | undefined = keys[selectedAlgorithms.indexOf("rsa")] || undefined;
+
+  const setKeys = (newKeys: string[]) => {
+    setPipeline((current) => current.map((layer, index) => ({ ...layer, key: newKeys[index] ?? "" })));
+  };
+
+  const setLayerKey = (layerIndex: number, key: string) => {
+    setPipeline((current) => current.map((layer, index) => (index === layerIndex ? { ...layer, key } : layer)));
+  };
+
+  // Each run gets a fresh controller; Cancel aborts whichever run is in flight
+  const startOperation = (label: string): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ value: 0, label });
+    return controller.signal;
+  };
+
+  const finishOperation = () => {
+    abortControllerRef.current = null;
+    setProgress(null);
+  };
+
+  const cancelOperation = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Failed runs are recorded with their error message only; cancelled runs are not recorded
+  const recordFailure = (
+    type: HistoryEntry["type"],
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    inputSize: number,
+    error: unknown
+  ) => {
+    onHistoryAdd?.({
+      id: crypto.randomUUID(),
+      type,
+      algorithm: algorithms[0],
+      securityMode: mode,
+      timestamp: Date.now(),
+      inputSize,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      layers: algorithms.map((algorithm, index) => ({ algorithm, order: index + 1 })),
+    });
+  };
+
+  const reportLayerProgress = ({ operation, completed, total }: PipelineProgress) => {
+    const verb = operation === "encrypt" ? "Encrypting" : "Decrypting";
+    setProgress({
+      value: completed / total,
+      label: completed < total ? `${verb} layer ${completed + 1}/${total}` : `${verb}: finishing`,
+    });
+  };
 
   const generateKeys = async () => {
     setIsGeneratingKeys(true);
+    const signal = startOperation("Generating keys");
     try {
-      const newKeys: Record<string, string> = {};
-
-      // Generate keys one by one to show progress (RSA can be slow)
-      for (const algorithm of selectedAlgorithms) {
+      const newKeys = [...keys];
+
+      // Generate keys one by one to show progress (RSA can be slow).
+      // Layers that already have a key keep it, so new layers can be added after generating.
+      for (const [index, algorithm] of selectedAlgorithms.entries()) {
+        if (newKeys[index]) continue;
+        setProgress({
+          value: index / selectedAlgorithms.length,
+          label: `Generating ${algorithm.toUpperCase()} key (${index + 1}/${selectedAlgorithms.length})`,
+        });
         try {
-          newKeys[algorithm] = await encryptionManager.generateKey(algorithm, securityMode);
-          // Small delay to allow UI updates
-          await new Promise(resolve => setTimeout(resolve, 50));
+          newKeys[index] = await cryptoWorker.generateKey(algorithm, securityMode, { signal });
         } catch (error) {
+          if (isCancellation(error)) throw error;
           console.error(`Failed to generate ${algorithm} key:`, error);
           throw new Error(`Failed to generate ${algorithm.toUpperCase()} key: ${error}`);
         }
       }
 
       // Verify all keys were generated
-      const missingKeys = selectedAlgorithms.filter(algo => !newKeys[algo]);
+      const missingKeys = selectedAlgorithms.filter((_, index) => !newKeys[index]);
       if (missingKeys.length > 0) {
         throw new Error(`Some keys failed to generate: ${missingKeys.join(", ").toUpperCase()}`);
       }
@@ -65,209 +235,622 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
       setIsSecurityModeLocked(true); // Lock security mode after keys are generated
 
       // Show success message
-      const keyCount = Object.keys(newKeys).length;
+      const keyCount = newKeys.length;
       console.log(`✅ Successfully generated ${keyCount} keys for ${securityMode} mode`);
     } catch (error) {
+      // Partial results are discarded: keys are only applied once every layer has one
+      if (isCancellation(error)) {
+        console.log("Key generation cancelled");
+        return;
+      }
       console.error("Key generation failed:", error);
       alert(`❌ Key generation failed!\n\n${error}\n\nPlease try again.`);
-      // Clear partial keys
-      setKeys({});
     } finally {
       setIsGeneratingKeys(false);
+      finishOperation();
     }
   };
 
   const handleEncrypt = async () => {
-    if (!plaintext.trim()) {
-      alert("Please enter text to encrypt");
+    if (!inputFile && !plaintext.trim()) {
+      alert("Please enter text or choose a file to encrypt");
+      return;
+    }
+
+    if (keySource === "passphrase" && !passphrase) {
+      alert("Please enter a passphrase first");
+      return;
+    }
+
+    if (pipeline.length === 0) {
+      alert("Please add at least one layer to the pipeline");
       return;
     }
 
-    if (Object.keys(keys).length === 0) {
+    if (keySource === "random" && !hasKeys) {
       alert("Please generate encryption keys first");
       return;
     }
 
-    // Verify all required keys exist
-    const missingKeys = selectedAlgorithms.filter(algo => !keys[algo]);
-    if (missingKeys.length > 0) {
+    // Verify every layer has a key
+    const missingKeys = pipeline.filter((layer) => !layer.key);
+    if (keySource === "random" && missingKeys.length > 0) {
       alert(
-        `❌ Missing keys for: ${missingKeys.join(", ").toUpperCase()}\n\n` +
-        `Current mode requires ${selectedAlgorithms.length} keys, but only ${Object.keys(keys).length} found.\n\n` +
-        `Click "Clear" and regenerate all keys.`
+        `❌ Missing keys for layers: ${missingKeys.map((layer) => `${layer.order}. ${layer.algorithm.toUpperCase()}`).join(", ")}\n\n` +
+        `The pipeline has ${pipeline.length} layers, but only ${pipeline.length - missingKeys.length} have keys.\n\n` +
+        `Click "Generate Keys" to create the missing ones.`
       );
       return;
     }
 
+    if (inputFile && inputFile.size > STREAMING_THRESHOLD) {
+      await encryptFileStream(inputFile);
+      return;
+    }
+
+    const inputSize = inputFile ? inputFile.size : new Blob([plaintext]).size;
     setIsProcessing(true);
+    const signal = startOperation("Preparing");
     try {
+      // In passphrase mode every layer key is derived under a fresh salt stored in the envelope
+      let layerKeys = keys;
+      let passphraseParams: PassphraseParams | undefined;
+      if (keySource === "passphrase") {
+        setProgress({ value: 0, label: "Deriving keys from passphrase" });
+        passphraseParams = passphraseDerivation.createParams(securityMode);
+        layerKeys = await cryptoWorker.deriveKeys(
+          passphrase,
+          selectedAlgorithms,
+          securityMode,
+          passphraseParams,
+          { signal }
+        );
+      }
+
       // Pass existing keys to encryption manager
-      const result = await encryptionManager.multiLayerEncrypt(
-        plaintext,
-        selectedAlgorithms,
-        securityMode,
-        keys // Use pre-generated keys if they exist
-      );
+      const fileData = inputFile ? new Uint8Array(await inputFile.arrayBuffer()) : null;
+      const result = inputFile && fileData
+        ? await cryptoWorker.multiLayerEncryptBytes(
+            fileData,
+            selectedAlgorithms,
+            securityMode,
+            layerKeys,
+            {
+              passphrase: passphraseParams,
+              file: { name: inputFile.name, type: inputFile.type, size: inputFile.size },
+              sampleIntermediates: FREQUENCY_SAMPLE_SIZE,
+              onProgress: reportLayerProgress,
+              signal,
+            }
+          )
+        : await cryptoWorker.multiLayerEncrypt(
+            plaintext,
+            selectedAlgorithms,
+            securityMode,
+            layerKeys, // Use pre-generated keys if they exist
+            { passphrase: passphraseParams, sampleIntermediates: FREQUENCY_SAMPLE_SIZE, onProgress: reportLayerProgress, signal }
+          );
 
-      setCiphertext(result.encrypted);
-      setResult(result.encrypted);
+      onFrequencySamples?.([
+        { label: "Plaintext", data: fileData ? fileData.slice(0, FREQUENCY_SAMPLE_SIZE) : plaintext.slice(0, FREQUENCY_SAMPLE_SIZE) },
+        ...result.intermediates.map((data: string | Uint8Array, index: number) => ({
+          label: `${index + 1}. ${encryptionManager.getAlgorithmName(selectedAlgorithms[index])}`,
+          data,
+        })),
+      ]);
+
+      if (inputFile) {
+        // Encrypted files are offered as a download rather than pasted into the textarea
+        const name = `${inputFile.name}.scx`;
+        setResultFile({ blob: new Blob([result.encrypted], { type: "text/plain" }), name });
+        setResult(`📦 Encrypted file ready: ${name} (${formatBytes(result.encrypted.length)})`);
+      } else {
+        setCiphertext(result.encrypted);
+        setResult(result.encrypted);
+        setResultFile(null);
+      }
       setLayers(result.layers);
+      setLayerMetrics(result.metrics);
       // Update keys with the ones used (in case any were newly generated)
       setKeys(result.keys);
 
-      // Calculate combined metrics
-      const totalTime = result.metrics.reduce((sum, m) => sum + m.encryptionTime, 0);
-      const maxMemory = Math.max(...result.metrics.map((m) => m.memoryUsed));
-      const avgThroughput =
-        result.metrics.reduce((sum, m) => sum + m.throughput, 0) / result.metrics.length;
-
-      const combinedMetrics = {
-        encryptionTime: totalTime,
-        memoryUsed: maxMemory,
-        dataSize: new Blob([plaintext]).size,
-        throughput: avgThroughput,
-      };
-
       if (onPerformanceUpdate) {
-        onPerformanceUpdate(combinedMetrics);
+        onPerformanceUpdate(result.summary);
       }
 
       if (onHistoryAdd) {
         onHistoryAdd({
-          id: Date.now().toString(),
+          id: crypto.randomUUID(),
           type: "encrypt",
           algorithm: selectedAlgorithms[0], // Primary algorithm
+          securityMode,
           timestamp: Date.now(),
-          inputSize: new Blob([plaintext]).size,
-          metrics: combinedMetrics,
+          inputSize,
+          metrics: result.summary,
           success: true,
           layers: result.layers,
+          layerMetrics: result.metrics,
         });
       }
     } catch (error) {
+      if (isCancellation(error)) {
+        console.log("Encryption cancelled");
+        return;
+      }
       console.error("Encryption failed:", error);
+      recordFailure("encrypt", selectedAlgorithms, securityMode, inputSize, error);
       alert(`Encryption failed: ${error}`);
     } finally {
       setIsProcessing(false);
+      finishOperation();
+    }
+  };
+
+  // Large files: a single chunked AES-GCM layer keyed by the AES layer key, so memory stays bounded
+  const encryptFileStream = async (file: File) => {
+    setIsProcessing(true);
+    const signal = startOperation("Streaming");
+    try {
+      let streamKey = aesKey;
+      let passphraseParams: PassphraseParams | undefined;
+      if (keySource === "passphrase") {
+        passphraseParams = passphraseDerivation.createParams(securityMode);
+        const derived = await cryptoWorker.deriveKeys(passphrase, ["aes"], securityMode, passphraseParams, { signal });
+        streamKey = derived[0];
+      }
+      if (!streamKey) {
+        throw new Error(
+          `Files over ${formatBytes(STREAMING_THRESHOLD)} are streamed with AES-GCM, but the pipeline has no AES layer. ` +
+          `Add an AES layer or use a passphrase.`
+        );
+      }
+
+      const startTime = performance.now();
+      const stream = streamingCipher.createEncryptStream(streamKey, securityMode, {
+        totalBytes: file.size,
+        file: { name: file.name, type: file.type, size: file.size },
+        passphrase: passphraseParams,
+        onProgress: ({ processedBytes }) => setProgress({ value: processedBytes / file.size, label: "Streaming" }),
+      });
+      const blob = await new Response(file.stream().pipeThrough(stream, { signal })).blob();
+      const elapsed = Math.max(performance.now() - startTime, 0.001);
+
+      const name = `${file.name}.scx`;
+      setResultFile({ blob, name });
+      setResult(`📦 Encrypted file ready: ${name} (${formatBytes(blob.size)}, streamed in ${formatTime(elapsed)})`);
+      const streamLayers: EncryptionLayer[] = [{ algorithm: "aes", key: streamKey, order: 1 }];
+      // Chunks are encrypted as they are read, so a stream is not split into phases
+      const metrics = buildMetrics({ kdf: 0, cipher: elapsed, encoding: 0 }, file.size, blob.size, elapsed);
+      setLayers(streamLayers);
+      setLayerMetrics([metrics]);
+      onPerformanceUpdate?.(metrics);
+      onHistoryAdd?.({
+        id: crypto.randomUUID(),
+        type: "encrypt",
+        algorithm: "aes",
+        securityMode,
+        timestamp: Date.now(),
+        inputSize: file.size,
+        metrics,
+        success: true,
+        layers: streamLayers,
+        layerMetrics: [metrics],
+      });
+    } catch (error) {
+      if (isCancellation(error)) {
+        console.log("Streaming encryption cancelled");
+        return;
+      }
+      console.error("Streaming encryption failed:", error);
+      recordFailure("encrypt", ["aes"], securityMode, file.size, error);
+      alert(`Encryption failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+      finishOperation();
+    }
+  };
+
+  const decryptFileStream = async (file: File) => {
+    if (keySource === "random" && !aesKey) {
+      alert("❌ Streamed files are decrypted with the AES key.\n\nLoad the key file that was saved when this file was encrypted.");
+      return;
+    }
+
+    setIsProcessing(true);
+    const signal = startOperation("Streaming");
+    try {
+      const startTime = performance.now();
+      let streamKey = aesKey ?? "";
+      const { stream, header } = streamingCipher.createDecryptStream(
+        async (streamHeader) => {
+          if (keySource === "random") return streamKey;
+          if (!streamHeader.passphrase) {
+            throw new Error('This file was not encrypted with a passphrase. Switch to "Random Keys" and load its key file.');
+          }
+          const derived = await cryptoWorker.deriveKeys(
+            passphrase,
+            ["aes"],
+            streamHeader.securityMode,
+            streamHeader.passphrase,
+            { signal }
+          );
+          streamKey = derived[0];
+          return streamKey;
+        },
+        {
+          totalBytes: file.size,
+          onProgress: ({ processedBytes }) => setProgress({ value: processedBytes / file.size, label: "Streaming" }),
+        }
+      );
+      const decrypted = await new Response(file.stream().pipeThrough(stream, { signal })).blob();
+      const { file: metadata, securityMode: streamMode } = await header;
+      const elapsed = Math.max(performance.now() - startTime, 0.001);
+
+      const name = metadata?.name ?? `decrypted-${Date.now()}.bin`;
+      setResultFile({ blob: new Blob([decrypted], { type: metadata?.type || "application/octet-stream" }), name });
+      setResult(`📄 Decrypted file ready: ${name} (${formatBytes(decrypted.size)}, streamed in ${formatTime(elapsed)})`);
+      const streamLayers: EncryptionLayer[] = [{ algorithm: "aes", key: streamKey, order: 1 }];
+      const metrics = buildMetrics({ kdf: 0, cipher: elapsed, encoding: 0 }, file.size, decrypted.size, elapsed);
+      setLayers(streamLayers);
+      setLayerMetrics([metrics]);
+      onPerformanceUpdate?.(metrics);
+      onHistoryAdd?.({
+        id: crypto.randomUUID(),
+        type: "decrypt",
+        algorithm: "aes",
+        securityMode: streamMode,
+        timestamp: Date.now(),
+        inputSize: file.size,
+        metrics,
+        success: true,
+        layers: streamLayers,
+        layerMetrics: [metrics],
+      });
+    } catch (error) {
+      if (isCancellation(error)) {
+        console.log("Streaming decryption cancelled");
+        return;
+      }
+      console.error("❌ Streaming decryption failed:", error);
+      recordFailure("decrypt", ["aes"], securityMode, file.size, error);
+      alert(`${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsProcessing(false);
+      finishOperation();
     }
   };
 
   const handleDecrypt = async () => {
-    if (!ciphertext.trim()) {
-      alert("Please enter text to decrypt");
+    if (!inputFile && !ciphertext.trim()) {
+      alert("Please enter text or choose an encrypted file to decrypt");
       return;
     }
 
-    if (Object.keys(keys).length === 0) {
+    if (keySource === "passphrase" && !passphrase) {
+      alert("Please enter the passphrase used for encryption");
+      return;
+    }
+
+    // Streamed files are binary; sniff the magic bytes before reading the whole file as text
+    if (inputFile && isStreamHeader(new Uint8Array(await inputFile.slice(0, 4).arrayBuffer()))) {
+      await decryptFileStream(inputFile);
+      return;
+    }
+
+    // Encrypted files are text envelopes, so both inputs go through the same path
+    const input = inputFile ? await inputFile.text() : ciphertext;
+
+    if (keySource === "random" && !hasKeys) {
       alert("❌ No decryption keys found!\n\nPlease generate keys first or use the same keys from encryption.");
       return;
     }
 
+    // Enveloped ciphertexts carry their own layer list; bare ones use the current mode
+    let requiredAlgorithms = selectedAlgorithms;
+    let requiredMode = securityMode;
+    let passphraseParams: PassphraseParams | undefined;
+    let isBinary = false;
+    try {
+      const envelope = unwrapEnvelope(input);
+      if (envelope) {
+        requiredAlgorithms = envelope.header.layers;
+        requiredMode = envelope.header.securityMode;
+        passphraseParams = envelope.header.passphrase;
+        isBinary = envelope.header.encoding === "binary";
+      }
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    if (keySource === "passphrase" && !passphraseParams) {
+      alert(
+        `❌ This ciphertext was not encrypted with a passphrase.\n\n` +
+        `Switch to "Random Keys" and load the key file that was saved when it was encrypted.`
+      );
+      return;
+    }
+
+    // Keys are matched to layers by position, so the loaded pipeline must be the one that encrypted
+    const describeLayers = (algorithms: CipherAlgorithm[]) => algorithms.map((algo) => algo.toUpperCase()).join(" → ");
+    if (
+      keySource === "random" &&
+      (requiredAlgorithms.length !== selectedAlgorithms.length ||
+        requiredAlgorithms.some((algorithm, index) => algorithm !== selectedAlgorithms[index]))
+    ) {
+      alert(
+        `❌ Layer mismatch!\n\n` +
+        `Ciphertext layers: ${describeLayers(requiredAlgorithms)}\n` +
+        `Current pipeline: ${describeLayers(selectedAlgorithms)}\n\n` +
+        `Load the key file that was saved when this text was encrypted.`
+      );
+      return;
+    }
+
     // Check if all required keys exist
-    const missingKeys = selectedAlgorithms.filter(algo => !keys[algo] || keys[algo].trim() === "");
-    if (missingKeys.length > 0) {
+    const missingKeys = requiredAlgorithms.filter((_, index) => !keys[index] || keys[index].trim() === "");
+    if (keySource === "random" && missingKeys.length > 0) {
       alert(
         `❌ Missing keys for: ${missingKeys.join(", ").toUpperCase()}\n\n` +
-        `Security mode: ${securityMode.toUpperCase()}\n` +
-        `Required: ${selectedAlgorithms.length} keys\n` +
-        `Found: ${Object.keys(keys).length} keys\n\n` +
+        `Security mode: ${requiredMode.toUpperCase()}\n` +
+        `Required: ${requiredAlgorithms.length} keys\n` +
+        `Found: ${requiredAlgorithms.length - missingKeys.length} keys\n\n` +
         `💡 Solution:\n` +
-        `1. Make sure you're using the SAME security mode as encryption\n` +
+        `1. Load the key file that was saved when this text was encrypted\n` +
         `2. Or click "Clear" and start fresh with matching mode\n` +
         `3. Generate keys → Encrypt → Decrypt (same mode)`
       );
       return;
     }
 
-    console.log(`🔓 Decrypting with ${securityMode} mode (${selectedAlgorithms.length} layers)...`);
+    console.log(`🔓 Decrypting with ${requiredMode} mode (${requiredAlgorithms.length} layers)...`);
 
     setIsProcessing(true);
+    const signal = startOperation("Preparing");
     try {
-      const result = await encryptionManager.multiLayerDecrypt(
-        ciphertext,
-        selectedAlgorithms,
-        keys,
-        securityMode
-      );
+      let layerKeys = keys;
+      if (keySource === "passphrase" && passphraseParams) {
+        setProgress({ value: 0, label: "Deriving keys from passphrase" });
+        layerKeys = await cryptoWorker.deriveKeys(
+          passphrase,
+          requiredAlgorithms,
+          requiredMode,
+          passphraseParams,
+          { signal }
+        );
+        setPipeline(toPipeline(requiredAlgorithms, layerKeys));
+      }
 
-      setPlaintext(result.decrypted);
-      setResult(result.decrypted);
+      const legacy = { algorithms: selectedAlgorithms, mode: securityMode };
+      let result;
+      if (isBinary) {
+        result = await cryptoWorker.multiLayerDecryptBytes(input, layerKeys, legacy, {
+          onProgress: reportLayerProgress,
+          signal,
+        });
+        const name = result.file?.name ?? `decrypted-${Date.now()}.bin`;
+        setResultFile({
+          blob: new Blob([result.decrypted], { type: result.file?.type || "application/octet-stream" }),
+          name,
+        });
+        setResult(`📄 Decrypted file ready: ${name} (${formatBytes(result.decrypted.length)})`);
+      } else {
+        result = await cryptoWorker.multiLayerDecrypt(input, layerKeys, legacy, {
+          onProgress: reportLayerProgress,
+          signal,
+        });
+        setPlaintext(result.decrypted);
+        setResult(result.decrypted);
+        setResultFile(null);
+      }
       setLayers(result.layers);
-
-      // Calculate combined metrics
-      const totalTime = result.metrics.reduce((sum, m) => sum + m.encryptionTime, 0);
-      const maxMemory = Math.max(...result.metrics.map((m) => m.memoryUsed));
-      const avgThroughput =
-        result.metrics.reduce((sum, m) => sum + m.throughput, 0) / result.metrics.length;
-
-      const combinedMetrics = {
-        encryptionTime: totalTime,
-        memoryUsed: maxMemory,
-        dataSize: new Blob([ciphertext]).size,
-        throughput: avgThroughput,
-      };
+      setLayerMetrics(result.metrics);
 
       if (onPerformanceUpdate) {
-        onPerformanceUpdate(combinedMetrics);
+        onPerformanceUpdate(result.summary);
       }
 
       if (onHistoryAdd) {
         onHistoryAdd({
-          id: Date.now().toString(),
+          id: crypto.randomUUID(),
           type: "decrypt",
-          algorithm: selectedAlgorithms[0], // Primary algorithm
+          algorithm: result.algorithms[0], // Primary algorithm
+          securityMode: result.mode,
           timestamp: Date.now(),
-          inputSize: new Blob([ciphertext]).size,
-          metrics: combinedMetrics,
+          inputSize: result.summary.dataSize,
+          metrics: result.summary,
           success: true,
           layers: result.layers,
+          layerMetrics: result.metrics,
         });
       }
     } catch (error) {
+      if (isCancellation(error)) {
+        console.log("Decryption cancelled");
+        return;
+      }
       console.error("❌ Decryption failed:", error);
+      recordFailure("decrypt", requiredAlgorithms, requiredMode, inputFile ? inputFile.size : new Blob([input]).size, error);
       const errorMsg = error instanceof Error ? error.message : String(error);
 
       // Show helpful message - the error already contains detailed info from encryption-manager
       alert(`${errorMsg}`);
     } finally {
       setIsProcessing(false);
+      finishOperation();
+    }
+  };
+
+  // Signatures cover the dropped file's bytes, or the UTF-8 text when no file is chosen
+  const readMessage = async (): Promise<Uint8Array | null> => {
+    if (inputFile) return new Uint8Array(await inputFile.arrayBuffer());
+    if (!plaintext) return null;
+    return utf8Encode(plaintext);
+  };
+
+  const handleSign = async () => {
+    if (keySource === "passphrase" || !rsaKey) {
+      alert(
+        `❌ No signing key!\n\n` +
+        `Signing uses the key pair of the first RSA layer. Switch to "Random Keys", add an RSA layer and ` +
+        `generate keys, or load a key file that has one.`
+      );
+      return;
+    }
+    const message = await readMessage();
+    if (!message) {
+      alert("Please enter text or choose a file to sign");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const file = inputFile ? { name: inputFile.name, type: inputFile.type, size: inputFile.size } : undefined;
+      const signature = signatureService.sign(message, rsaKey, file);
+      const json = JSON.stringify(signature, null, 2);
+      setResult(json);
+      setResultFile({
+        blob: new Blob([json], { type: "application/json" }),
+        name: `${inputFile?.name ?? `message-${Date.now()}`}.sig.json`,
+      });
+      console.log(`✅ Signed ${message.length} bytes with key ${signature.fingerprint}`);
+    } catch (error) {
+      console.error("Signing failed:", error);
+      alert(`❌ Signing failed!\n\n${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    const message = await readMessage();
+    if (!message) {
+      alert("Please enter the signed text or choose the signed file");
+      return;
+    }
+    if (!signatureText.trim()) {
+      alert("Please paste or load the signature to verify");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const signature = parseSignature(signatureText);
+      // Compare against the loaded RSA key when there is one, so a valid signature from a stranger stands out
+      const expectedPublicKey = keySource === "random" && rsaKey ? parseRsaKey(rsaKey, "encrypt").publicKey : undefined;
+      const outcome = signatureService.verify(message, signature, expectedPublicKey);
+      setVerification(outcome);
+      setResultFile(null);
+      setResult(
+        (outcome.valid ? "✅ Signature is valid" : "❌ Signature is NOT valid: the data or signature was modified") +
+        `\n\nSigner key fingerprint (SHA-256):\n${outcome.fingerprint}` +
+        `\n\nSigned at: ${new Date(outcome.signedAt).toLocaleString()}` +
+        (outcome.trustedKey === undefined
+          ? "\n\n⚠️ No RSA key loaded: compare the fingerprint with the one the signer gave you."
+          : outcome.trustedKey
+            ? "\n\n🔑 Signed with the RSA key in your current key set."
+            : "\n\n⚠️ Signed with a different key than the RSA key in your current key set.")
+      );
+    } catch (error) {
+      console.error("Verification failed:", error);
+      setVerification(null);
+      alert(`❌ Verification failed!\n\n${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const loadSignature = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      setSignatureText(await file.text());
+      setVerification(null);
     }
   };
 
   const downloadResult = () => {
-    const blob = new Blob([result], { type: "text/plain" });
+    // File results keep their original name and MIME type
+    const blob = resultFile?.blob ?? new Blob([result], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${mode}-result-${Date.now()}.txt`;
+    a.download = resultFile?.name ?? `${mode}-result-${Date.now()}.txt`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const downloadKeys = () => {
-    // Create JSON structure with metadata
-    const keyExport = {
-      securityMode: securityMode,
-      timestamp: Date.now(),
-      algorithms: selectedAlgorithms,
-      keys: keys,
-      version: "1.0"
-    };
+  // Resolves with the entered password, or null when the dialog is cancelled
+  const requestPassword = (request: PasswordRequest): Promise<string | null> =>
+    new Promise((resolve) => {
+      passwordResolverRef.current = resolve;
+      setPasswordRequest(request);
+    });
+
+  const submitPassword = (password: string | null) => {
+    passwordResolverRef.current?.(password);
+    passwordResolverRef.current = null;
+    setPasswordRequest(null);
+  };
 
-    const jsonString = JSON.stringify(keyExport, null, 2);
+  // Writes a password-protected (v2) key file; returns false if the user cancelled
+  const saveProtectedKeyFile = async (bundle: KeyBundle): Promise<boolean> => {
+    const password = await requestPassword({
+      title: "Protect key file",
+      description:
+        "The key file is encrypted with this password. You will need it to load the keys again — it cannot be recovered.",
+      confirm: true,
+      minLength: MIN_KEY_FILE_PASSWORD_LENGTH,
+    });
+    if (password === null) return false;
+
+    const keyFile = await protectKeyBundle(bundle, password);
+    const jsonString = JSON.stringify(keyFile, null, 2);
     const blob = new Blob([jsonString], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `encryption-keys-${securityMode}-${Date.now()}.json`;
+    a.download = `encryption-keys-${bundle.securityMode}-${Date.now()}.json`;
     a.click();
     URL.revokeObjectURL(url);
+    return true;
+  };
+
+  const downloadKeys = async () => {
+    try {
+      const saved = await saveProtectedKeyFile({
+        securityMode,
+        algorithms: selectedAlgorithms,
+        keys,
+        timestamp: Date.now(),
+      });
+      if (saved) {
+        console.log(`✅ Keys saved for ${securityMode} mode with ${selectedAlgorithms.length} algorithms`);
+      }
+    } catch (error) {
+      alert(`❌ Failed to save keys!\n\n${error instanceof Error ? error.message : error}`);
+    }
+  };
 
-    console.log(`✅ Keys saved for ${securityMode} mode with ${selectedAlgorithms.length} algorithms`);
+  // Asks for the password until it decrypts the file or the user cancels
+  const openProtectedKeyFile = async (keyFile: ProtectedKeyFile): Promise<KeyBundle | null> => {
+    let description = `Enter the password for this ${keyFile.algorithms.length}-layer key file.`;
+    for (;;) {
+      const password = await requestPassword({ title: "Unlock key file", description });
+      if (password === null) return null;
+      try {
+        return await unprotectKeyBundle(keyFile, password);
+      } catch (error) {
+        if (!(error instanceof AuthenticationError)) throw error;
+        description = "❌ Wrong password. Try again.";
+      }
+    }
   };
 
-  const loadKeys = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const loadKeys = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset file input so same file can be selected again
+    event.target.value = '';
     if (!file) return;
 
     // Check file extension
@@ -276,112 +859,116 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const keyData = JSON.parse(content);
-
-        // Validate JSON structure
-        if (!keyData.securityMode || !keyData.algorithms || !keyData.keys) {
-          throw new Error("Invalid key file format");
-        }
-
-        // Check if security mode matches
-        if (keyData.securityMode !== securityMode) {
-          const switchMode = confirm(
-            `⚠️ Security Mode Mismatch!\n\n` +
-            `Key file is for: ${keyData.securityMode.toUpperCase()} mode\n` +
-            `Current mode: ${securityMode.toUpperCase()}\n\n` +
-            `Click OK to switch to ${keyData.securityMode.toUpperCase()} mode, or Cancel to keep current mode.`
-          );
-
-          if (switchMode) {
-            setSecurityMode(keyData.securityMode);
-          } else {
-            return;
-          }
+    try {
+      const keyData: unknown = JSON.parse(await file.text());
+
+      let bundle: KeyBundle | null;
+      if (isProtectedKeyFile(keyData)) {
+        bundle = await openProtectedKeyFile(keyData);
+        if (!bundle) return;
+      } else {
+        // Unencrypted key files from older versions still load, with an offer to protect them
+        bundle = parseKeyBundle(keyData);
+        const upgrade = confirm(
+          `⚠️ Unprotected key file!\n\n` +
+          `This key file stores your keys in plain text. Anyone who gets the file can decrypt your data.\n\n` +
+          `Click OK to save a password-protected copy now (then delete the old file), or Cancel to just load it.`
+        );
+        if (upgrade && (await saveProtectedKeyFile(bundle))) {
+          console.log("✅ Saved password-protected copy of the key file");
         }
+      }
+      const { securityMode: fileMode, algorithms, keys: fileKeys } = bundle;
+
+      // Check if security mode matches
+      if (fileMode !== securityMode) {
+        const switchMode = confirm(
+          `⚠️ Security Mode Mismatch!\n\n` +
+          `Key file is for: ${fileMode.toUpperCase()} mode\n` +
+          `Current mode: ${securityMode.toUpperCase()}\n\n` +
+          `Click OK to switch to ${fileMode.toUpperCase()} mode, or Cancel to keep current mode.`
+        );
 
-        // Validate all required keys are present
-        const requiredAlgorithms = encryptionManager.getRecommendedAlgorithms(keyData.securityMode);
-        const missingKeys = requiredAlgorithms.filter(algo => !keyData.keys[algo]);
-
-        if (missingKeys.length > 0) {
-          alert(
-            `❌ Incomplete key file!\n\n` +
-            `Missing keys for: ${missingKeys.join(", ").toUpperCase()}\n\n` +
-            `This file is corrupted or incomplete. Please use a valid key file.`
-          );
+        if (switchMode) {
+          setSecurityMode(fileMode);
+        } else {
           return;
         }
+      }
 
-        // Load keys into state
-        setKeys(keyData.keys);
-        setIsSecurityModeLocked(true);
+      // Validate all required keys are present
+      const missingKeys = algorithms.filter((_, index) => !fileKeys[index]);
 
-        console.log(`✅ Loaded ${Object.keys(keyData.keys).length} keys for ${keyData.securityMode} mode`);
+      if (missingKeys.length > 0) {
         alert(
-          `✅ Keys Loaded Successfully!\n\n` +
-          `Mode: ${keyData.securityMode.toUpperCase()}\n` +
-          `Algorithms: ${Object.keys(keyData.keys).length}\n\n` +
-          `You can now decrypt your message.`
+          `❌ Incomplete key file!\n\n` +
+          `Missing keys for: ${missingKeys.join(", ").toUpperCase()}\n\n` +
+          `This file is corrupted or incomplete. Please use a valid key file.`
         );
+        return;
+      }
 
-      } catch (error) {
-        console.error("Failed to load keys:", error);
-        alert(
-          `❌ Failed to load key file!\n\n` +
-          `Error: ${error instanceof Error ? error.message : "Invalid JSON file"}\n\n` +
-          `Please make sure you're using a valid encryption key file.`
-        );
+      // Each cipher checks its own key format
+      for (const [index, algorithm] of algorithms.entries()) {
+        try {
+          encryptionManager.validateKey(algorithm, fileKeys[index]);
+        } catch (error) {
+          alert(
+            `❌ Invalid ${algorithm.toUpperCase()} key for layer ${index + 1} in key file!\n\n` +
+            `${error instanceof Error ? error.message : error}`
+          );
+          return;
+        }
       }
-    };
 
-    reader.readAsText(file);
+      // The key file carries its pipeline, so loading it replaces the current layers
+      setPipeline(toPipeline(algorithms, fileKeys));
+      setIsSecurityModeLocked(true);
 
-    // Reset file input so same file can be selected again
-    event.target.value = '';
+      console.log(`✅ Loaded ${algorithms.length} keys for ${fileMode} mode`);
+      alert(
+        `✅ Keys Loaded Successfully!\n\n` +
+        `Mode: ${fileMode.toUpperCase()}\n` +
+        `Layers: ${algorithms.map((algorithm) => algorithm.toUpperCase()).join(" → ")}\n\n` +
+        `You can now decrypt your message.`
+      );
+    } catch (error) {
+      console.error("Failed to load keys:", error);
+      alert(
+        `❌ Failed to load key file!\n\n` +
+        `Error: ${error instanceof Error ? error.message : "Invalid JSON file"}\n\n` +
+        `Please make sure you're using a valid encryption key file.`
+      );
+    }
   };
 
   return (
     <div className="w-full max-w-6xl mx-auto space-y-6">
       {/* Mode Selector */}
       <div className="flex gap-3 sm:gap-4 justify-center flex-wrap">
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={() => {
-            setMode("encrypt");
-            setResult("");
-          }}
-          className={cn(
-            "flex-1 sm:flex-none px-6 sm:px-8 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all",
-            mode === "encrypt"
-              ? "bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg"
-              : "bg-white hover:bg-indigo-50 text-gray-900 font-semibold border-2 border-indigo-200 hover:border-indigo-400"
-          )}
-        >
-          <Lock className="w-5 h-5" />
-          Encrypt
-        </motion.button>
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={() => {
-            setMode("decrypt");
-            setResult("");
-          }}
-          className={cn(
-            "flex-1 sm:flex-none px-6 sm:px-8 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all",
-            mode === "decrypt"
-              ? "bg-gradient-to-r from-purple-600 to-pink-600 text-white shadow-lg"
-              : "bg-white hover:bg-purple-50 text-gray-900 font-semibold border-2 border-purple-200 hover:border-purple-400"
-          )}
-        >
-          <Unlock className="w-5 h-5" />
-          Decrypt
-        </motion.button>
+        {panelModes.map(({ value, label, icon: Icon, activeClass, idleClass }) => (
+          <motion.button
+            key={value}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => {
+              setMode(value);
+              setResult("");
+              setResultFile(null);
+              setInputFile(null);
+              setVerification(null);
+            }}
+            className={cn(
+              "flex-1 sm:flex-none px-6 sm:px-8 py-3 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all",
+              mode === value
+                ? `bg-gradient-to-r ${activeClass} text-white shadow-lg`
+                : `bg-white text-gray-900 font-semibold border-2 ${idleClass}`
+            )}
+          >
+            <Icon className="w-5 h-5" />
+            {label}
+          </motion.button>
+        ))}
       </div>
 
       {/* Security Mode Selection */}
@@ -403,7 +990,7 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
               onClick={() => {
                 if (!isSecurityModeLocked) {
                   setSecurityMode(sm.value);
-                  setKeys({}); // Clear keys when mode changes
+                  setPipeline(toPipeline(encryptionManager.getRecommendedAlgorithms(sm.value))); // Reset to the mode's stack
                   setLayers([]); // Clear layers
                 }
               }}
@@ -446,7 +1033,7 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
         )}
       </motion.div>
 
-      {/* Selected Algorithms Display */}
+      {/* Pipeline Builder */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -455,22 +1042,23 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
       >
         <h3 className="text-lg font-bold mb-4 flex items-center gap-2 text-gray-900">
           <Layers className="w-5 h-5 text-purple-600" />
-          Encryption Layers ({selectedAlgorithms.length} algorithms)
+          Encryption Layers ({selectedAlgorithms.length} layers)
         </h3>
-        <div className="flex flex-wrap gap-3">
-          {selectedAlgorithms.map((algo, index) => (
-            <motion.div
-              key={algo}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: index * 0.1 }}
-              className="px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-xl font-bold shadow-md flex items-center gap-2"
-            >
-              <span className="text-xs bg-white/20 px-2 py-0.5 rounded-full">{index + 1}</span>
-              {algo.toUpperCase()}
-            </motion.div>
-          ))}
-        </div>
+        <PipelineBuilder
+          pipeline={pipeline}
+          securityMode={securityMode}
+          onChange={setPipeline}
+          onPresetSelect={(preset) => {
+            if (hasKeys) {
+              alert("Clear keys before loading a preset");
+              return;
+            }
+            setSecurityMode(preset.securityMode);
+            setPipeline(toPipeline(preset.algorithms));
+            setLayers([]);
+          }}
+          disabled={isProcessing || isGeneratingKeys}
+        />
         <p className="mt-3 text-sm text-gray-600">
           Your data will be encrypted sequentially through {selectedAlgorithms.length} layers for{" "}
           <span className="font-bold text-indigo-600">{securityMode}</span> security.
@@ -500,7 +1088,12 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
             exit={{ opacity: 0, height: 0 }}
             transition={{ duration: 0.3 }}
           >
-            <KeyGenerationInfo algorithms={selectedAlgorithms} securityMode={securityMode} />
+            <KeyGenerationInfo
+              algorithms={[...new Set(selectedAlgorithms)]}
+              securityMode={securityMode}
+              layers={pipeline}
+              passphrase={keySource === "passphrase" ? passphrase : undefined}
+            />
           </motion.div>
         )}
       </AnimatePresence>
@@ -516,29 +1109,86 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
           {/* Input */}
           <div className="space-y-3">
             <label className="block font-bold text-gray-900">
-              {mode === "encrypt" ? "Plaintext" : "Ciphertext"}
+              {mode === "encrypt" ? "Plaintext" : mode === "decrypt" ? "Ciphertext" : "Message"}
             </label>
-            <textarea
-              value={mode === "encrypt" ? plaintext : ciphertext}
-              onChange={(e) =>
-                mode === "encrypt" ? setPlaintext(e.target.value) : setCiphertext(e.target.value)
+            {!inputFile && (
+              <textarea
+                value={mode === "decrypt" ? ciphertext : plaintext}
+                onChange={(e) =>
+                  mode === "decrypt" ? setCiphertext(e.target.value) : setPlaintext(e.target.value)
+                }
+                placeholder={`Enter ${mode === "decrypt" ? "text to decrypt" : `text to ${mode}`}...`}
+                className="w-full h-40 p-4 rounded-xl bg-white text-gray-900 border-2 border-indigo-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-none shadow-md"
+              />
+            )}
+            <FileDropZone
+              file={inputFile}
+              onFileChange={(file) => {
+                setInputFile(file);
+                setResult("");
+                setResultFile(null);
+                setVerification(null);
+              }}
+              disabled={isProcessing}
+              hint={
+                mode === "decrypt"
+                  ? "Or drop an encrypted .scx file here"
+                  : mode === "verify"
+                    ? "Or drop the signed file here"
+                    : `Or drop any file here to ${mode} (images, PDFs, archives...)`
               }
-              placeholder={`Enter ${mode === "encrypt" ? "text to encrypt" : "text to decrypt"}...`}
-              className="w-full h-40 p-4 rounded-xl bg-white text-gray-900 border-2 border-indigo-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-none shadow-md"
             />
+            {mode === "encrypt" && inputFile && inputFile.size > STREAMING_THRESHOLD && (
+              <p className="text-xs text-gray-600">
+                Large file: it will be streamed in authenticated 1 MB AES-GCM chunks instead of the layer pipeline.
+              </p>
+            )}
           </div>
 
           {/* Output */}
           <div className="space-y-3">
             <label className="block font-bold text-gray-900">
-              {mode === "encrypt" ? "Ciphertext" : "Plaintext"}
+              {{ encrypt: "Ciphertext", decrypt: "Plaintext", sign: "Detached Signature", verify: "Verification" }[mode]}
             </label>
             <textarea
               value={result}
               readOnly
               placeholder="Result will appear here..."
-              className="w-full h-40 p-4 rounded-xl bg-gray-50 text-gray-900 border-2 border-purple-300 resize-none shadow-md"
+              className={cn(
+                "w-full h-40 p-4 rounded-xl bg-gray-50 text-gray-900 border-2 resize-none shadow-md",
+                mode === "verify" && verification
+                  ? verification.valid ? "border-green-400" : "border-red-400"
+                  : "border-purple-300"
+              )}
             />
+            {mode === "verify" && (
+              <>
+                <label className="block font-bold text-gray-900">Signature</label>
+                <textarea
+                  value={signatureText}
+                  onChange={(e) => {
+                    setSignatureText(e.target.value);
+                    setVerification(null);
+                  }}
+                  placeholder="Paste the .sig.json signature..."
+                  className="w-full h-28 p-4 rounded-xl bg-white text-gray-900 border-2 border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-500 resize-none shadow-md font-mono text-xs"
+                />
+                <input
+                  type="file"
+                  id="load-signature-input"
+                  accept=".json,application/json"
+                  onChange={loadSignature}
+                  className="hidden"
+                />
+                <label
+                  htmlFor="load-signature-input"
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-teal-700 font-semibold border-2 border-teal-300 hover:bg-teal-50 cursor-pointer"
+                >
+                  <Upload className="w-4 h-4" />
+                  Load Signature File
+                </label>
+              </>
+            )}
           </div>
         </div>
 
@@ -549,127 +1199,239 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
             Encryption Keys ({selectedAlgorithms.length} keys)
           </label>
 
-          {Object.keys(keys).length > 0 ? (
-            <div className="space-y-2 max-h-40 overflow-y-auto p-3 bg-gray-50 rounded-xl border-2 border-indigo-200">
-              {selectedAlgorithms.map((algo) => (
-                <div key={algo} className="p-2 bg-white rounded-lg border border-gray-200">
-                  <div className="text-xs font-bold text-indigo-600 uppercase mb-1">{algo}</div>
-                  <code className="text-xs text-gray-700 font-mono break-all">
-                    {keys[algo] || "Not generated"}
-                  </code>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="p-4 bg-amber-50 rounded-xl border-2 border-amber-200 text-center">
-              <p className="text-sm font-semibold text-amber-800">⚠️ No keys generated yet!</p>
-              <p className="text-xs text-amber-700 mt-1">Click "Generate Keys" below before encrypting.</p>
-            </div>
-          )}
+          {/* Key Source Toggle */}
+          <div className="flex gap-3">
+            {(["random", "passphrase"] as const).map((source) => (
+              <button
+                key={source}
+                onClick={() => {
+                  if (source !== keySource) {
+                    setKeySource(source);
+                    setKeys([]);
+                    setLayers([]);
+                    setIsSecurityModeLocked(false);
+                  }
+                }}
+                className={cn(
+                  "flex-1 px-4 py-2 rounded-xl text-sm font-semibold transition-all",
+                  keySource === source
+                    ? "bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-md"
+                    : "bg-white text-gray-900 border-2 border-amber-200 hover:border-amber-400"
+                )}
+              >
+                {source === "random" ? "Random Keys (key file)" : "Single Passphrase"}
+              </button>
+            ))}
+          </div>
 
-          {mode === "encrypt" && Object.keys(keys).length > 0 && (
-            <div className="p-3 bg-green-50 border-2 border-green-300 rounded-xl">
-              <p className="text-sm text-green-800 font-semibold">
-                ✅ Keys ready! You can now encrypt. These keys will be used for encryption.
-              </p>
+          {keySource === "passphrase" ? (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Enter passphrase..."
+                autoComplete="new-password"
+                className="w-full p-4 rounded-xl bg-white text-gray-900 border-2 border-amber-300 focus:outline-none focus:ring-2 focus:ring-amber-500 shadow-md"
+              />
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-xs text-blue-800 font-medium">
+                  🔑 Every layer key is derived from this passphrase with PBKDF2 and a random salt stored in the
+                  ciphertext. No key file is needed — the same passphrase decrypts it.
+                </p>
+              </div>
             </div>
-          )}
-
-          <div className="flex flex-wrap gap-3">
-            <motion.button
-              whileHover={{ scale: isGeneratingKeys ? 1 : 1.05 }}
-              whileTap={{ scale: isGeneratingKeys ? 1 : 0.95 }}
-              onClick={generateKeys}
-              disabled={isGeneratingKeys}
-              className={cn(
-                "w-full sm:flex-1 px-6 py-4 rounded-xl font-semibold shadow-lg transition-all",
-                isGeneratingKeys
-                  ? "bg-gray-400 cursor-not-allowed"
-                  : "bg-gradient-to-r from-amber-500 to-orange-500 text-white hover:shadow-xl hover:from-amber-600 hover:to-orange-600"
-              )}
-            >
-              {isGeneratingKeys ? (
-                <span className="flex items-center gap-2 justify-center">
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  Generating Keys...
-                </span>
+          ) : (
+            <>
+              {hasKeys ||
+              selectedAlgorithms.includes("rsa") ||
+              selectedAlgorithms.includes("hill") ||
+              selectedAlgorithms.some((algorithm) => ALPHABET_CIPHERS.includes(algorithm as AlphabetCipher)) ? (
+                <div className="space-y-2 max-h-64 overflow-y-auto p-3 bg-gray-50 rounded-xl border-2 border-indigo-200">
+                  {pipeline.map((layer, index) => (
+                    <div key={index} className="p-2 bg-white rounded-lg border border-gray-200">
+                      <div className="text-xs font-bold text-indigo-600 uppercase mb-1">
+                        {index + 1}. {layer.algorithm}
+                      </div>
+                      <code className="text-xs text-gray-700 font-mono break-all">
+                        {layer.key || "Not generated"}
+                      </code>
+                      {layer.algorithm === "rsa" && (
+                        <RsaKeyTools
+                          value={layer.key}
+                          onImport={(key) => setLayerKey(index, key)}
+                          requestPassword={requestPassword}
+                          disabled={isProcessing || isGeneratingKeys}
+                        />
+                      )}
+                      {layer.algorithm === "hill" && (
+                        <HillKeyTools
+                          value={layer.key}
+                          securityMode={securityMode}
+                          onChange={(key) => setLayerKey(index, key)}
+                          disabled={isProcessing || isGeneratingKeys}
+                        />
+                      )}
+                      {ALPHABET_CIPHERS.includes(layer.algorithm as AlphabetCipher) && (
+                        <AlphabetKeyTools
+                          algorithm={layer.algorithm as AlphabetCipher}
+                          value={layer.key}
+                          securityMode={securityMode}
+                          onChange={(key) => setLayerKey(index, key)}
+                          disabled={isProcessing || isGeneratingKeys}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
               ) : (
-                "Generate Keys"
+                <div className="p-4 bg-amber-50 rounded-xl border-2 border-amber-200 text-center">
+                  <p className="text-sm font-semibold text-amber-800">⚠️ No keys generated yet!</p>
+                  <p className="text-xs text-amber-700 mt-1">Click "Generate Keys" below before encrypting.</p>
+                </div>
               )}
-            </motion.button>
 
-            {/* Load Keys button - always show in decrypt mode */}
-            {mode === "decrypt" && !isGeneratingKeys && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.8 }}
-                animate={{ opacity: 1, scale: 1 }}
-                className="w-full"
-              >
-                <input
-                  type="file"
-                  id="load-keys-input"
-                  accept=".json,application/json"
-                  onChange={loadKeys}
-                  className="hidden"
-                />
-                <motion.label
-                  htmlFor="load-keys-input"
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  className="w-full sm:flex-1 px-6 py-4 rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all flex items-center gap-2 justify-center cursor-pointer"
-                >
-                  <Upload className="w-5 h-5" />
-                  Load Keys
-                </motion.label>
-                <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-lg">
-                  <p className="text-xs text-blue-800 font-medium">
-                    ⚠️ Keys must match the ones used for encryption. Check browser console (F12) for detailed decryption logs.
+              {mode === "encrypt" && hasKeys && (
+                <div className="p-3 bg-green-50 border-2 border-green-300 rounded-xl">
+                  <p className="text-sm text-green-800 font-semibold">
+                    ✅ Keys ready! You can now encrypt. These keys will be used for encryption.
                   </p>
                 </div>
-              </motion.div>
-            )}
+              )}
 
-            {Object.keys(keys).length > 0 && (
-              <>
+              <div className="flex flex-wrap gap-3">
                 <motion.button
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  onClick={downloadKeys}
-                  className="w-full sm:w-auto px-6 py-4 rounded-xl bg-gradient-to-r from-blue-500 to-cyan-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all flex items-center gap-2 justify-center"
-                >
-                  <Download className="w-5 h-5" />
-                  Save Keys
-                </motion.button>
-                <motion.button
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  onClick={() => {
-                    setKeys({});
-                    setLayers([]);
-                    setIsSecurityModeLocked(false);
-                    setResult("");
-                    setPlaintext("");
-                    setCiphertext("");
-                  }}
-                  className="w-full sm:w-auto px-6 py-4 rounded-xl bg-gradient-to-r from-red-500 to-rose-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all justify-center flex items-center gap-2"
+                  whileHover={{ scale: isGeneratingKeys ? 1 : 1.05 }}
+                  whileTap={{ scale: isGeneratingKeys ? 1 : 0.95 }}
+                  onClick={generateKeys}
+                  disabled={isGeneratingKeys}
+                  className={cn(
+                    "w-full sm:flex-1 px-6 py-4 rounded-xl font-semibold shadow-lg transition-all",
+                    isGeneratingKeys
+                      ? "bg-gray-400 cursor-not-allowed"
+                      : "bg-gradient-to-r from-amber-500 to-orange-500 text-white hover:shadow-xl hover:from-amber-600 hover:to-orange-600"
+                  )}
                 >
-                  Clear
+                  {isGeneratingKeys ? (
+                    <span className="flex items-center gap-2 justify-center">
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      {progress !== null ? progress.label : "Generating Keys..."}
+                    </span>
+                  ) : (
+                    "Generate Keys"
+                  )}
                 </motion.button>
-              </>
-            )}
-          </div>
+
+                {/* Load Keys button - always show in decrypt mode */}
+                {mode !== "encrypt" && !isGeneratingKeys && (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className="w-full"
+                  >
+                    <input
+                      type="file"
+                      id="load-keys-input"
+                      accept=".json,application/json"
+                      onChange={loadKeys}
+                      className="hidden"
+                    />
+                    <motion.label
+                      htmlFor="load-keys-input"
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="w-full sm:flex-1 px-6 py-4 rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all flex items-center gap-2 justify-center cursor-pointer"
+                    >
+                      <Upload className="w-5 h-5" />
+                      Load Keys
+                    </motion.label>
+                    <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-lg">
+                      <p className="text-xs text-blue-800 font-medium">
+                        ⚠️ Keys must match the ones used for encryption. Check browser console (F12) for detailed decryption logs.
+                      </p>
+                    </div>
+                  </motion.div>
+                )}
+
+                {hasKeys && (
+                  <>
+                    <motion.button
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={downloadKeys}
+                      className="w-full sm:w-auto px-6 py-4 rounded-xl bg-gradient-to-r from-blue-500 to-cyan-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all flex items-center gap-2 justify-center"
+                    >
+                      <Download className="w-5 h-5" />
+                      Save Keys
+                    </motion.button>
+                    <motion.button
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => {
+                        setKeys([]);
+                        setLayers([]);
+                        setIsSecurityModeLocked(false);
+                        setResult("");
+                        setResultFile(null);
+                        setInputFile(null);
+                        setPlaintext("");
+                        setCiphertext("");
+                      }}
+                      className="w-full sm:w-auto px-6 py-4 rounded-xl bg-gradient-to-r from-red-500 to-rose-500 text-white font-semibold shadow-lg hover:shadow-xl transition-all justify-center flex items-center gap-2"
+                    >
+                      Clear
+                    </motion.button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
         </div>
 
+        {/* Live progress of the running operation */}
+        <AnimatePresence>
+          {progress !== null && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mt-6 flex items-center gap-3"
+            >
+              <div className="flex-1 space-y-1">
+                <div className="flex justify-between text-xs font-semibold text-gray-700">
+                  <span>{progress.label}</span>
+                  <span>{Math.round(progress.value * 100)}%</span>
+                </div>
+                <div className="h-2 rounded-full bg-indigo-100 overflow-hidden">
+                  <motion.div
+                    className="h-full bg-gradient-to-r from-indigo-600 to-purple-600"
+                    animate={{ width: `${Math.round(progress.value * 100)}%` }}
+                  />
+                </div>
+              </div>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={cancelOperation}
+                className="px-4 py-2 rounded-xl bg-white text-red-600 font-semibold border-2 border-red-200 hover:border-red-400 hover:bg-red-50 transition-all flex items-center gap-1"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </motion.button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Action Buttons */}
         <div className="mt-6 flex gap-4 justify-center flex-wrap">
           <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            onClick={mode === "encrypt" ? handleEncrypt : handleDecrypt}
+            onClick={{ encrypt: handleEncrypt, decrypt: handleDecrypt, sign: handleSign, verify: handleVerify }[mode]}
             disabled={isProcessing}
             className={cn(
               "w-full sm:w-auto px-8 py-4 rounded-xl font-bold text-lg shadow-lg transition-all",
@@ -681,12 +1443,12 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
             {isProcessing ? (
               <span className="flex items-center gap-2 justify-center">
                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                Processing...
+                {progress !== null ? `${Math.round(progress.value * 100)}%` : "Processing..."}
               </span>
             ) : (
               <span className="flex items-center gap-2 justify-center">
-                {mode === "encrypt" ? <Lock className="w-5 h-5" /> : <Unlock className="w-5 h-5" />}
-                {mode === "encrypt" ? "Encrypt" : "Decrypt"}
+                <ActiveModeIcon className="w-5 h-5" />
+                {activeMode.label}
               </span>
             )}
           </motion.button>
@@ -716,10 +1478,12 @@ export function EncryptionPanel({ onPerformanceUpdate, onHistoryAdd }: Encryptio
             exit={{ opacity: 0, y: -20 }}
             transition={{ delay: 0.3 }}
           >
-            <EncryptionFlow layers={layers} isEncrypting={mode === "encrypt"} />
+            <EncryptionFlow layers={layers} metrics={layerMetrics} isEncrypting={mode === "encrypt"} />
           </motion.div>
         )}
       </AnimatePresence>
+
+      <PasswordDialog request={passwordRequest} onSubmit={submitPassword} />
     </div>
   );
 }
@@ -0,0 +1,91 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { FileUp, FileText, X } from "lucide-react";
+import { cn, formatBytes } from "@/lib/utils";
+
+interface FileDropZoneProps {
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  hint: string;
+  disabled?: boolean;
+}
+
+export function FileDropZone({ file, onFileChange, hint, disabled = false }: FileDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const dropped = event.dataTransfer.files?.[0];
+    if (dropped) {
+      onFileChange(dropped);
+    }
+  };
+
+  if (file) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="flex items-center gap-3 p-4 rounded-xl bg-indigo-50 border-2 border-indigo-300"
+      >
+        <div className="p-2 rounded-lg bg-gradient-to-br from-indigo-500 to-purple-500">
+          <FileText className="w-5 h-5 text-white" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-gray-900 truncate">{file.name}</p>
+          <p className="text-xs text-gray-600">
+            {formatBytes(file.size)} • {file.type || "unknown type"}
+          </p>
+        </div>
+        <button
+          onClick={() => onFileChange(null)}
+          disabled={disabled}
+          className="p-2 rounded-lg hover:bg-indigo-100 text-gray-600 transition-all"
+          aria-label="Remove file"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </motion.div>
+    );
+  }
+
+  return (
+    <div
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => !disabled && inputRef.current?.click()}
+      className={cn(
+        "flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed cursor-pointer transition-all text-sm font-semibold",
+        isDragging
+          ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+          : "border-indigo-200 bg-white text-gray-600 hover:border-indigo-400 hover:bg-indigo-50",
+        disabled && "opacity-60 cursor-not-allowed"
+      )}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        onChange={(event) => {
+          const selected = event.target.files?.[0];
+          if (selected) {
+            onFileChange(selected);
+          }
+          event.target.value = "";
+        }}
+      />
+      <FileUp className="w-5 h-5" />
+      {hint}
+    </div>
+  );
+}
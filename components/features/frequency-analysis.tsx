@@ -0,0 +1,151 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { BarChart3 } from "lucide-react";
+import { ENGLISH_LETTER_FREQUENCIES, FrequencySample, frequencyProfile } from "@/lib/crypto/frequency";
+import { formatBytes } from "@/lib/utils";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+interface FrequencyAnalysisProps {
+  // Plaintext first, then the output of each layer in order
+  samples: FrequencySample[];
+}
+
+type View = "letters" | "bigrams" | "bytes";
+
+const views: { value: View; label: string }[] = [
+  { value: "letters", label: "Letters" },
+  { value: "bigrams", label: "Bigrams" },
+  { value: "bytes", label: "Bytes" },
+];
+
+const COLORS = ["#111827", "#8b5cf6", "#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#06b6d4"];
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Charts how each layer flattens the plaintext's letter, bigram and byte distributions
+export function FrequencyAnalysis({ samples }: FrequencyAnalysisProps) {
+  const [view, setView] = useState<View>("letters");
+  const profiles = useMemo(() => samples.map((sample) => frequencyProfile(sample.data)), [samples]);
+
+  // One row per x-axis position, one column per sample (s0 = plaintext)
+  const data = useMemo(() => {
+    switch (view) {
+      case "letters":
+        return ENGLISH_LETTER_FREQUENCIES.map((english, i) => ({
+          name: String.fromCharCode(65 + i),
+          english,
+          ...Object.fromEntries(profiles.map((profile, s) => [`s${s}`, profile.letters[i]])),
+        }));
+      case "bigrams": {
+        // Ranked, not labelled: each sample's top pairs differ, but the fall-off shows the flattening
+        const ranks = Math.max(0, ...profiles.map((profile) => profile.bigrams.length));
+        return Array.from({ length: ranks }, (_, rank) => ({
+          name: rank + 1,
+          ...Object.fromEntries(profiles.map((profile, s) => [`s${s}`, profile.bigrams[rank]?.frequency ?? 0])),
+        }));
+      }
+      case "bytes":
+        return Array.from({ length: 256 }, (_, value) => ({
+          name: value,
+          ...Object.fromEntries(profiles.map((profile, s) => [`s${s}`, profile.bytes[value]])),
+        }));
+    }
+  }, [view, profiles]);
+
+  if (samples.length === 0) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="glass dark:glass-dark rounded-2xl p-8 shadow-xl text-center"
+      >
+        <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
+        <p className="text-lg opacity-70">No frequency analysis yet</p>
+        <p className="text-sm opacity-50 mt-2">Encrypt something to see how each layer changes its distribution</p>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass dark:glass-dark rounded-2xl p-6 shadow-xl space-y-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold">Frequency Analysis</h3>
+        <div className="flex gap-2">
+          {views.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setView(option.value)}
+              className={`px-3 py-1 rounded-lg text-sm font-semibold ${
+                view === option.value ? "bg-purple-600 text-white" : "bg-white text-gray-800 border border-gray-300"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis dataKey="name" stroke="currentColor" style={{ fontSize: "12px" }} interval={view === "bytes" ? 31 : 0} />
+          <YAxis stroke="currentColor" style={{ fontSize: "12px" }} tickFormatter={percent} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "rgba(0,0,0,0.8)",
+              border: "1px solid rgba(255,255,255,0.2)",
+              borderRadius: "8px",
+            }}
+            formatter={(value: number) => percent(value)}
+          />
+          <Legend />
+          {view === "letters" && (
+            <Line type="monotone" dataKey="english" name="English" stroke="#9ca3af" strokeDasharray="5 5" dot={false} />
+          )}
+          {samples.map((sample, s) => (
+            <Line
+              key={s}
+              type="monotone"
+              dataKey={`s${s}`}
+              name={sample.label}
+              stroke={COLORS[s % COLORS.length]}
+              strokeWidth={s === 0 ? 3 : 2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="opacity-70 text-left">
+              <th className="p-2">Stage</th>
+              <th className="p-2">Sampled</th>
+              <th className="p-2">χ² vs English</th>
+              <th className="p-2">Entropy (bits/byte)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile, s) => (
+              <tr key={s} className="border-t border-gray-200">
+                <td className="p-2 font-semibold" style={{ color: COLORS[s % COLORS.length] }}>
+                  {samples[s].label}
+                </td>
+                <td className="p-2">{formatBytes(profile.byteCount)}</td>
+                <td className="p-2">{profile.letterCount > 0 ? profile.chiSquared.toFixed(1) : "— (no letters)"}</td>
+                <td className="p-2">{profile.entropy.toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { HillCipher, HillMode, HILL_MIN_SIZE, HILL_MAX_SIZE } from "@/lib/crypto/hill";
+import { parseHillKey } from "@/lib/crypto/ciphers/hill";
+import { SecurityMode } from "@/lib/crypto/types";
+
+interface HillKeyToolsProps {
+  // The layer key, or "" when the layer has no key yet
+  value: string;
+  securityMode: SecurityMode;
+  onChange: (key: string) => void;
+  disabled?: boolean;
+}
+
+const hill = new HillCipher();
+
+const MODES: { value: HillMode; label: string }[] = [
+  { value: "binary", label: "Binary-safe (bytes, mod 256)" },
+  { value: "classic", label: "Classic A–Z (mod 26)" },
+];
+
+const SIZES = Array.from({ length: HILL_MAX_SIZE - HILL_MIN_SIZE + 1 }, (_, i) => HILL_MIN_SIZE + i);
+
+// Picks the matrix size and alphabet for a Hill layer and generates a matching key
+export function HillKeyTools({ value, securityMode, onChange, disabled = false }: HillKeyToolsProps) {
+  let current: { mode: HillMode; size: number } | null = null;
+  try {
+    const key = parseHillKey(value);
+    current = { mode: key.mode, size: key.matrix.length };
+  } catch {
+    // No key yet, or one the user has to regenerate anyway
+  }
+  const [mode, setMode] = useState<HillMode>(current?.mode === "classic" ? "classic" : "binary");
+  const [size, setSize] = useState(current?.size ?? hill.getMatrixSize(securityMode));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as HillMode)}
+        disabled={disabled}
+        className="px-2 py-1 rounded-lg text-xs bg-white text-gray-900 border border-green-300"
+      >
+        {MODES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={size}
+        onChange={(e) => setSize(Number(e.target.value))}
+        disabled={disabled}
+        className="px-2 py-1 rounded-lg text-xs bg-white text-gray-900 border border-green-300"
+      >
+        {SIZES.map((option) => (
+          <option key={option} value={option}>
+            {option}×{option}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onChange(hill.keyToString(hill.generateKey(size, undefined, mode)))}
+        disabled={disabled}
+        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-green-700 border border-green-300 hover:bg-green-50 disabled:opacity-50"
+      >
+        <RefreshCw className="w-3.5 h-3.5" />
+        New matrix
+      </button>
+      {current?.mode === "hex" && (
+        <span className="text-xs text-amber-700 font-medium">Legacy hex-mode key (decrypts old ciphertexts)</span>
+      )}
+      {mode === "classic" && (
+        <span className="text-xs text-gray-600">Drops everything but letters; only use as the first layer</span>
+      )}
+    </div>
+  );
+}
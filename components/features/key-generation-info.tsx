@@ -1,20 +1,44 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Key, Info } from "lucide-react";
-import { CipherAlgorithm, SecurityMode } from "@/lib/crypto/types";
+import { Key, Info, AlertTriangle } from "lucide-react";
+import { CipherAlgorithm, SecurityMode, EncryptionLayer, KeyStrength } from "@/lib/crypto/types";
 import { EncryptionManager } from "@/lib/crypto/encryption-manager";
+import { KeyAnalysisService } from "@/lib/crypto/key-analysis";
 
 interface KeyGenerationInfoProps {
   algorithms: CipherAlgorithm[];
   securityMode: SecurityMode;
+  // Current pipeline keys, analysed once generated or loaded
+  layers?: Pick<EncryptionLayer, "algorithm" | "key">[];
+  // Set in passphrase mode, where the layer keys only exist while encrypting
+  passphrase?: string;
 }
 
-export function KeyGenerationInfo({ algorithms, securityMode }: KeyGenerationInfoProps) {
+const keyAnalysis = new KeyAnalysisService();
+
+const STRENGTH_STYLES: Record<KeyStrength, string> = {
+  weak: "bg-red-100 text-red-700 border-red-300",
+  moderate: "bg-amber-100 text-amber-700 border-amber-300",
+  strong: "bg-green-100 text-green-700 border-green-300",
+};
+
+function StrengthBadge({ strength }: { strength: KeyStrength }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-bold border capitalize ${STRENGTH_STYLES[strength]}`}>
+      {strength}
+    </span>
+  );
+}
+
+export function KeyGenerationInfo({ algorithms, securityMode, layers = [], passphrase }: KeyGenerationInfoProps) {
   const manager = new EncryptionManager();
 
   if (algorithms.length === 0) return null;
 
+  const hasKeys = layers.some((layer) => layer.key !== "");
+  const report = passphrase !== undefined || hasKeys ? keyAnalysis.analyze(layers, passphrase) : null;
+
   return (
     <div className="glass p-6 rounded-2xl">
       <div className="flex items-center gap-3 mb-4">
@@ -58,6 +82,52 @@ export function KeyGenerationInfo({ algorithms, securityMode }: KeyGenerationInf
         ))}
       </div>
 
+      {/* Key Strength */}
+      {report && (
+        <div className="mt-4 p-4 bg-white rounded-xl border-2 border-purple-200">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-bold text-black">Key Strength</h4>
+            <StrengthBadge strength={report.strength} />
+          </div>
+          <div className="space-y-2">
+            {report.layers.map((layer, index) => (
+              <div key={index} className="p-2 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-gray-800">
+                    {index + 1}. {manager.getAlgorithmName(layer.algorithm)}
+                  </span>
+                  <span className="flex items-center gap-2 text-xs font-mono text-gray-700">
+                    {layer.entropyBits.toFixed(1)} bits
+                    <StrengthBadge strength={layer.strength} />
+                  </span>
+                </div>
+                {layer.warnings.map((warning) => (
+                  <p key={warning} className="flex items-start gap-1 mt-1 text-xs text-red-700">
+                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-xs text-gray-700 leading-relaxed">
+            {report.passphraseBits !== undefined ? (
+              <>
+                Every layer key is derived from the passphrase, estimated at{" "}
+                <span className="font-bold">{report.passphraseBits.toFixed(1)} bits</span>. The keys can never be
+                stronger than that.
+              </>
+            ) : (
+              <>
+                Combined key space: <span className="font-bold">{report.combinedBits.toFixed(1)} bits</span>. An
+                attacker who can break the layers one at a time only faces the strongest,{" "}
+                <span className="font-bold">{report.strongestBits.toFixed(1)} bits</span>.
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
       {/* Security Mode Info */}
       <div className="mt-4 p-4 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl border-2 border-indigo-200">
         <p className="text-sm text-gray-700 font-semibold mb-2">
@@ -65,9 +135,9 @@ export function KeyGenerationInfo({ algorithms, securityMode }: KeyGenerationInf
         </p>
         <p className="text-xs text-gray-600 leading-relaxed">
           {securityMode === "high" &&
-            "Maximum security with strongest key lengths and 5 encryption layers."}
+            "Maximum security with strongest key lengths and 6 encryption layers."}
           {securityMode === "balanced" &&
-            "Optimal balance between security and performance with 3 encryption layers."}
+            "Optimal balance between security and performance with 4 encryption layers."}
           {securityMode === "lightweight" &&
             "Fast encryption with basic security using 2 encryption layers."}
         </p>
@@ -0,0 +1,194 @@
+"use client";
+
+import { useId, useState } from "react";
+import { motion } from "framer-motion";
+import { Terminal, Lock, Unlock, Upload } from "lucide-react";
+import {
+  OPENSSL_CIPHERS,
+  OPENSSL_DEFAULT_ITERATIONS,
+  OpenSslCipher,
+  opensslEncrypt,
+  opensslDecrypt,
+  opensslCommand,
+  isOpenSslSalted,
+  toOpenSslBase64,
+  fromOpenSslBase64,
+} from "@/lib/crypto/openssl";
+import { utf8Encode, utf8Decode } from "@/lib/crypto/encoding";
+
+// Text input maps to `-a` (base64) output; a file is written as raw bytes, like `openssl enc` without -a
+export function OpenSslInterop() {
+  const inputId = useId();
+  const [decrypt, setDecrypt] = useState(false);
+  const [cipher, setCipher] = useState<OpenSslCipher>("aes-256-cbc");
+  const [iterations, setIterations] = useState(OPENSSL_DEFAULT_ITERATIONS);
+  const [password, setPassword] = useState("");
+  const [text, setText] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [output, setOutput] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const download = (data: Uint8Array<ArrayBuffer>, name: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type: "application/octet-stream" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRun = async () => {
+    if (!password) {
+      alert("Please enter a password");
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      const options = { cipher, iterations };
+      if (file) {
+        const data = new Uint8Array(await file.arrayBuffer());
+        if (decrypt) {
+          // Accept both raw and -a files
+          const input = isOpenSslSalted(data) ? data : fromOpenSslBase64(utf8Decode(data));
+          download(await opensslDecrypt(input, password, options), file.name.replace(/\.enc$/, "") || "decrypted");
+        } else {
+          download(await opensslEncrypt(data, password, options), `${file.name}.enc`);
+        }
+        setOutput("");
+      } else if (decrypt) {
+        setOutput(utf8Decode(await opensslDecrypt(fromOpenSslBase64(text), password, options)));
+      } else {
+        setOutput(toOpenSslBase64(await opensslEncrypt(utf8Encode(text), password, options)));
+      }
+    } catch (error) {
+      alert(`❌ OpenSSL ${decrypt ? "decryption" : "encryption"} failed!\n\n${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // The CLI command that undoes this operation
+  const command = opensslCommand(cipher, iterations, { decrypt: !decrypt, base64: !file });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass p-6 rounded-2xl space-y-4"
+    >
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-r from-gray-700 to-gray-900 rounded-xl">
+          <Terminal className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-black">OpenSSL Interop</h3>
+          <p className="text-sm text-gray-600">
+            {`"Salted__" files compatible with openssl enc -pbkdf2 -md sha256`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {[false, true].map((value) => (
+          <button
+            key={String(value)}
+            onClick={() => {
+              setDecrypt(value);
+              setOutput("");
+            }}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl font-semibold ${
+              decrypt === value ? "bg-gradient-to-r from-gray-700 to-gray-900 text-white" : "bg-white text-gray-800 border-2 border-gray-300"
+            }`}
+          >
+            {value ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {value ? "Decrypt" : "Encrypt"}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={cipher}
+          onChange={(e) => setCipher(e.target.value as OpenSslCipher)}
+          className="px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+        >
+          {OPENSSL_CIPHERS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={iterations}
+          onChange={(e) => setIterations(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+          title="PBKDF2 iterations (-iter)"
+          className="px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (-k)"
+          className="px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-gray-300"
+        />
+      </div>
+
+      {file ? (
+        <div className="flex items-center justify-between p-3 bg-white rounded-xl border-2 border-gray-300">
+          <span className="text-sm font-semibold text-gray-800 truncate">{file.name}</span>
+          <button onClick={() => setFile(null)} className="text-sm font-semibold text-purple-700 hover:underline">
+            Use text instead
+          </button>
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={decrypt ? "Paste base64 output of openssl enc -a..." : "Enter text to encrypt..."}
+          className="w-full h-28 px-4 py-3 rounded-xl bg-white text-gray-900 border-2 border-gray-300 font-mono text-sm resize-none"
+        />
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="file"
+          id={inputId}
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+        <label
+          htmlFor={inputId}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl font-semibold bg-white text-gray-800 border-2 border-gray-300 hover:bg-gray-50 cursor-pointer"
+        >
+          <Upload className="w-4 h-4" />
+          Choose File
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isProcessing || (!file && !text)}
+          className="flex-1 px-4 py-2 rounded-xl font-semibold bg-gradient-to-r from-gray-700 to-gray-900 text-white disabled:opacity-50"
+        >
+          {isProcessing ? "Working..." : decrypt ? "Decrypt" : "Encrypt"}
+        </button>
+      </div>
+
+      {output && (
+        <pre className="p-4 bg-white rounded-xl border-2 border-gray-300 text-sm text-gray-900 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+          {output}
+        </pre>
+      )}
+
+      <div className="p-3 bg-gray-900 rounded-xl">
+        <p className="text-xs text-gray-400 mb-1">{decrypt ? "Encrypt on the server with:" : "Decrypt on the server with:"}</p>
+        <code className="text-xs text-green-300 break-all">
+          {command}
+        </code>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { KeyRound } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface PasswordRequest {
+  title: string;
+  description: string;
+  // Ask for the password twice, for passwords that are being set rather than entered
+  confirm?: boolean;
+  minLength?: number;
+}
+
+interface PasswordDialogProps {
+  request: PasswordRequest | null;
+  // Called with null when the dialog is cancelled
+  onSubmit: (password: string | null) => void;
+}
+
+export function PasswordDialog({ request, onSubmit }: PasswordDialogProps) {
+  return (
+    <AnimatePresence>
+      {request && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+          onClick={() => onSubmit(null)}
+        >
+          {/* Keyed by title so each request starts with empty fields */}
+          <PasswordForm key={request.title} request={request} onSubmit={onSubmit} />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function PasswordForm({ request, onSubmit }: { request: PasswordRequest; onSubmit: (password: string | null) => void }) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const minLength = request.minLength ?? 1;
+  const tooShort = password !== "" && password.length < minLength;
+  const mismatch = request.confirm === true && confirmation !== "" && confirmation !== password;
+  const canSubmit = password.length >= minLength && (!request.confirm || confirmation === password);
+
+  return (
+    <motion.form
+      initial={{ scale: 0.95, y: 10 }}
+      animate={{ scale: 1, y: 0 }}
+      exit={{ scale: 0.95, y: 10 }}
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) onSubmit(password);
+      }}
+      className="w-full max-w-md glass rounded-2xl p-6 shadow-xl bg-white space-y-4"
+    >
+      <h3 className="text-lg font-bold flex items-center gap-2 text-gray-900">
+        <KeyRound className="w-5 h-5 text-amber-600" />
+        {request.title}
+      </h3>
+      <p className="text-sm text-gray-600">{request.description}</p>
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoFocus
+        autoComplete={request.confirm ? "new-password" : "current-password"}
+        className="w-full p-3 rounded-xl bg-white text-gray-900 border-2 border-amber-300 focus:outline-none focus:ring-2 focus:ring-amber-500"
+      />
+      {request.confirm && (
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Repeat password"
+          autoComplete="new-password"
+          className={cn(
+            "w-full p-3 rounded-xl bg-white text-gray-900 border-2 focus:outline-none focus:ring-2 focus:ring-amber-500",
+            mismatch ? "border-red-400" : "border-amber-300"
+          )}
+        />
+      )}
+      {tooShort && <p className="text-xs text-red-600 font-medium">Use at least {minLength} characters</p>}
+      {mismatch && <p className="text-xs text-red-600 font-medium">Passwords do not match</p>}
+      <div className="flex gap-3 justify-end">
+        <button
+          type="button"
+          onClick={() => onSubmit(null)}
+          className="px-5 py-2 rounded-xl bg-white text-gray-900 font-semibold border-2 border-gray-200 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="px-5 py-2 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white font-semibold shadow-md disabled:opacity-60"
+        >
+          OK
+        </button>
+      </div>
+    </motion.form>
+  );
+}
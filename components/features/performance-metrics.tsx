@@ -1,7 +1,7 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Activity, Clock, Database, Zap } from "lucide-react";
+import { Activity, Clock, Maximize2, Zap } from "lucide-react";
 import { PerformanceMetrics } from "@/lib/crypto/types";
 import { formatTime, formatBytes } from "@/lib/utils";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
@@ -11,6 +11,12 @@ interface PerformanceMetricsProps {
   history: Array<{ timestamp: number; time: number; throughput: number }>;
 }
 
+const PHASES = [
+  { key: "kdf", label: "Key derivation", color: "bg-amber-500" },
+  { key: "cipher", label: "Cipher", color: "bg-indigo-500" },
+  { key: "encoding", label: "Encoding", color: "bg-emerald-500" },
+] as const;
+
 export function PerformanceMetricsDisplay({ metrics, history }: PerformanceMetricsProps) {
   const stats = [
     {
@@ -20,9 +26,9 @@ export function PerformanceMetricsDisplay({ metrics, history }: PerformanceMetri
       color: "from-blue-500 to-cyan-500",
     },
     {
-      icon: Database,
-      label: "Memory Used",
-      value: metrics ? formatBytes(metrics.memoryUsed) : "—",
+      icon: Maximize2,
+      label: "Expansion",
+      value: metrics ? `×${metrics.expansionRatio.toFixed(2)}` : "—",
       color: "from-purple-500 to-pink-500",
     },
     {
@@ -62,6 +68,41 @@ export function PerformanceMetricsDisplay({ metrics, history }: PerformanceMetri
         ))}
       </div>
 
+      {/* Phase Breakdown */}
+      {metrics && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass dark:glass-dark rounded-2xl p-6 shadow-xl"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-semibold">Where the Time Went</h3>
+            <span className="text-sm opacity-70">
+              {formatBytes(metrics.dataSize)} in → {formatBytes(metrics.outputSize)} out
+            </span>
+          </div>
+          <div className="flex h-4 rounded-full overflow-hidden bg-gray-200">
+            {PHASES.map((phase) => (
+              <div
+                key={phase.key}
+                className={phase.color}
+                style={{ width: `${(metrics.phases[phase.key] / metrics.encryptionTime) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-3 text-sm">
+            {PHASES.map((phase) => (
+              <div key={phase.key} className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full ${phase.color}`} />
+                <span className="opacity-70">{phase.label}</span>
+                <span className="font-semibold">{formatTime(metrics.phases[phase.key])}</span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Performance Chart */}
       {history.length > 0 && (
         <motion.div
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, Layers } from "lucide-react";
+import { cipherRegistry } from "@/lib/crypto/ciphers";
+import { CipherAlgorithm, EncryptionLayer, SecurityMode } from "@/lib/crypto/types";
+import { PipelinePreset, BUILT_IN_PRESETS, loadPresets, savePreset, deletePreset, subscribePresets } from "@/lib/presets";
+import { cn } from "@/lib/utils";
+
+interface PipelineBuilderProps {
+  pipeline: EncryptionLayer[];
+  securityMode: SecurityMode;
+  onChange: (pipeline: EncryptionLayer[]) => void;
+  onPresetSelect: (preset: PipelinePreset) => void;
+  disabled?: boolean;
+}
+
+// Layer order is always the array order; `order` is kept 1-based to match EncryptionLayer elsewhere
+function renumber(layers: EncryptionLayer[]): EncryptionLayer[] {
+  return layers.map((layer, index) => ({ ...layer, order: index + 1 }));
+}
+
+export function PipelineBuilder({ pipeline, securityMode, onChange, onPresetSelect, disabled = false }: PipelineBuilderProps) {
+  // User presets live in localStorage, so the server render only has the built-ins
+  const presets = useSyncExternalStore(subscribePresets, loadPresets, () => BUILT_IN_PRESETS);
+  const [newAlgorithm, setNewAlgorithm] = useState<CipherAlgorithm>("aes");
+  const [presetName, setPresetName] = useState("");
+
+  const moveLayer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pipeline.length) return;
+    const next = [...pipeline];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(renumber(next));
+  };
+
+  const removeLayer = (index: number) => {
+    onChange(renumber(pipeline.filter((_, i) => i !== index)));
+  };
+
+  // Keys stay with their layer when it moves; a new layer starts without one
+  const addLayer = () => {
+    onChange(renumber([...pipeline, { algorithm: newAlgorithm, key: "", order: 0 }]));
+  };
+
+  const handleSavePreset = () => {
+    try {
+      savePreset({ name: presetName, securityMode, algorithms: pipeline.map((layer) => layer.algorithm) });
+      setPresetName("");
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleDeletePreset = (name: string) => {
+    if (confirm(`Delete preset "${name}"?`)) {
+      deletePreset(name);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2">
+        {presets.map((preset) => (
+          <div key={preset.name} className="flex items-center">
+            <button
+              onClick={() => onPresetSelect(preset)}
+              disabled={disabled}
+              className={cn(
+                "px-3 py-1.5 text-xs font-semibold border-2 transition-all",
+                preset.builtIn ? "rounded-lg" : "rounded-l-lg",
+                "bg-white text-gray-800 border-indigo-200 hover:border-indigo-400 hover:bg-indigo-50",
+                disabled && "opacity-60 cursor-not-allowed"
+              )}
+              title={preset.algorithms.map((algorithm) => algorithm.toUpperCase()).join(" → ")}
+            >
+              {preset.name} ({preset.algorithms.length})
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() => handleDeletePreset(preset.name)}
+                className="px-2 py-1.5 text-xs rounded-r-lg border-2 border-l-0 border-indigo-200 bg-white text-gray-500 hover:text-red-600 hover:bg-red-50"
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Layers */}
+      <div className="space-y-2">
+        <AnimatePresence initial={false}>
+          {pipeline.map((layer, index) => {
+            const cipher = cipherRegistry.get(layer.algorithm);
+            return (
+              <motion.div
+                key={`${index}-${layer.algorithm}`}
+                layout
+                initial={{ opacity: 0, y: -8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                className="flex items-center gap-3 p-3 rounded-xl bg-white border-2 border-indigo-100"
+              >
+                <span className="w-7 h-7 shrink-0 rounded-full bg-gradient-to-r from-indigo-500 to-purple-500 text-white text-xs font-bold flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <span
+                  className={cn(
+                    "w-9 h-9 shrink-0 rounded-lg bg-gradient-to-r flex items-center justify-center text-lg",
+                    cipher.color
+                  )}
+                >
+                  {cipher.icon}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">{cipher.name}</p>
+                  <p className={cn("text-xs", layer.key ? "text-green-700" : "text-amber-700")}>
+                    {layer.key ? "Key ready" : "No key yet"}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => moveLayer(index, -1)}
+                    disabled={disabled || index === 0}
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-indigo-50 disabled:opacity-30"
+                    aria-label="Move layer up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveLayer(index, 1)}
+                    disabled={disabled || index === pipeline.length - 1}
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-indigo-50 disabled:opacity-30"
+                    aria-label="Move layer down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeLayer(index)}
+                    disabled={disabled || pipeline.length === 1}
+                    className="p-1.5 rounded-lg text-gray-600 hover:bg-red-50 hover:text-red-600 disabled:opacity-30"
+                    aria-label="Remove layer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      {/* Add layer / save preset */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="flex flex-1 gap-2">
+          <select
+            value={newAlgorithm}
+            onChange={(e) => setNewAlgorithm(e.target.value as CipherAlgorithm)}
+            disabled={disabled}
+            className="flex-1 px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-indigo-200 focus:outline-none focus:border-indigo-500"
+          >
+            {cipherRegistry.list().map((cipher) => (
+              <option key={cipher.id} value={cipher.id}>
+                {cipher.icon} {cipher.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addLayer}
+            disabled={disabled}
+            className="px-4 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold flex items-center gap-1 disabled:opacity-60"
+          >
+            <Plus className="w-4 h-4" />
+            Add Layer
+          </button>
+        </div>
+        <div className="flex flex-1 gap-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 px-3 py-2 rounded-xl bg-white text-gray-900 border-2 border-indigo-200 focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim() || pipeline.length === 0}
+            className="px-4 py-2 rounded-xl bg-white text-indigo-700 font-semibold border-2 border-indigo-300 hover:bg-indigo-50 flex items-center gap-1 disabled:opacity-60"
+          >
+            <Save className="w-4 h-4" />
+            Save Preset
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-600 flex items-center gap-1">
+        <Layers className="w-3.5 h-3.5" />
+        Layers run top to bottom when encrypting and in reverse when decrypting. Presets store the layer order only, never keys.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { RSA_KEY_FORMATS, RsaKeyFormat, PassphraseRequiredError, importRsaKey, exportRsaKey } from "@/lib/crypto/rsa-keys";
+import { PasswordRequest } from "./password-dialog";
+
+interface RsaKeyToolsProps {
+  // The layer key (JSON with PEM halves), or "" when the layer has no key yet
+  value: string;
+  onImport: (key: string) => void;
+  requestPassword: (request: PasswordRequest) => Promise<string | null>;
+  disabled?: boolean;
+}
+
+const EXTENSIONS: Record<RsaKeyFormat, string> = {
+  spki: "pub.pem",
+  pkcs1: "pem",
+  pkcs8: "key.pem",
+  "pkcs8-encrypted": "key.pem",
+  jwk: "jwk.json",
+  openssh: "pub",
+};
+
+// Bring-your-own-key controls for an RSA layer
+export function RsaKeyTools({ value, onImport, requestPassword, disabled = false }: RsaKeyToolsProps) {
+  const inputId = useId();
+  const [format, setFormat] = useState<RsaKeyFormat>("spki");
+
+  let hasPrivateKey = false;
+  try {
+    hasPrivateKey = value !== "" && Boolean(JSON.parse(value).privateKey);
+  } catch {
+    // Layer keys are JSON; anything else is treated as public-only
+  }
+  const formats = RSA_KEY_FORMATS.filter((option) => hasPrivateKey || !option.privateOnly);
+  // Falls back to the first format when the chosen one needs a private key this layer lacks
+  const selectedFormat = formats.some((option) => option.value === format) ? format : formats[0].value;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      let keyPair;
+      try {
+        keyPair = importRsaKey(text);
+      } catch (error) {
+        if (!(error instanceof PassphraseRequiredError)) throw error;
+        const passphrase = await requestPassword({
+          title: "Encrypted private key",
+          description: `${file.name} is an encrypted PKCS#8 key. Enter its passphrase to import it.`,
+        });
+        if (passphrase === null) return;
+        keyPair = importRsaKey(text, passphrase);
+      }
+      onImport(JSON.stringify(keyPair));
+      if (!keyPair.privateKey) {
+        alert("ℹ️ Imported a public key only. This layer can encrypt, but decrypting needs the private key.");
+      }
+    } catch (error) {
+      alert(`❌ Failed to import RSA key!\n\n${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      let passphrase: string | undefined;
+      if (selectedFormat === "pkcs8-encrypted") {
+        const entered = await requestPassword({
+          title: "Encrypt private key",
+          description: "The exported PKCS#8 key is encrypted with this passphrase (PBKDF2-SHA256, AES-256-CBC).",
+          confirm: true,
+        });
+        if (entered === null) return;
+        passphrase = entered;
+      }
+
+      const exported = exportRsaKey(importRsaKey(value), selectedFormat, { passphrase });
+      const blob = new Blob([exported], { type: selectedFormat === "jwk" ? "application/json" : "text/plain" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `rsa-key-${selectedFormat}-${Date.now()}.${EXTENSIONS[selectedFormat]}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(`❌ Failed to export RSA key!\n\n${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <input
+        type="file"
+        id={inputId}
+        accept=".pem,.key,.pub,.json,.jwk,text/plain,application/json"
+        onChange={handleImport}
+        disabled={disabled}
+        className="hidden"
+      />
+      <label
+        htmlFor={inputId}
+        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-purple-700 border border-purple-300 hover:bg-purple-50 cursor-pointer"
+      >
+        <Upload className="w-3.5 h-3.5" />
+        Import key
+      </label>
+      {value !== "" && (
+        <>
+          <select
+            value={selectedFormat}
+            onChange={(e) => setFormat(e.target.value as RsaKeyFormat)}
+            className="px-2 py-1 rounded-lg text-xs bg-white text-gray-900 border border-purple-300"
+          >
+            {formats.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-semibold bg-white text-purple-700 border border-purple-300 hover:bg-purple-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,21 @@
 import CryptoJS from "crypto-js";
-import { SecurityMode } from "./types";
+import { SecurityMode, KdfParams } from "./types";
+import { AuthenticationError } from "./errors";
+import { utf8Encode, utf8Decode, bytesToHex, hexToBytes, bytesToBase64, base64ToBytes } from "./encoding";
+import { RandomSource, secureRandom } from "./random";
+import { PhaseTimer, timePhase } from "./metrics";
+
+export type AESMode = "gcm" | "cbc";
+
+export interface AESOptions {
+  cipherMode?: AESMode;
+  associatedData?: string;
+  timer?: PhaseTimer;
+}
+
+// GCM output is tagged so it can be told apart from legacy CBC output (pure hex + base64)
+const GCM_PREFIX = "gcm:";
+const GCM_HEADER_BYTES = 28; // salt (16) + iv (12)
 
 export class AESCipher {
   private getKeySize(mode: SecurityMode): number {
@@ -24,20 +40,212 @@ export class AESCipher {
     }
   }
 
-  generateKey(mode: SecurityMode = "balanced"): string {
-    const keySize = this.getKeySize(mode) / 8;
-    return CryptoJS.lib.WordArray.random(keySize).toString();
+  // PBKDF2 parameters recorded in the ciphertext envelope
+  getKdfParams(mode: SecurityMode): KdfParams {
+    return { name: "PBKDF2", hash: "SHA-256", iterations: this.getIterations(mode) };
+  }
+
+  // KDF parameters read back from a file must be ones getKdfParams produces: a crafted iteration
+  // count would otherwise keep PBKDF2 deriving keys indefinitely
+  isSupportedKdf(kdf: KdfParams | undefined): boolean {
+    const iterations = (["high", "balanced", "lightweight"] as SecurityMode[]).map((mode) => this.getIterations(mode));
+    return (
+      kdf?.name === "PBKDF2" &&
+      kdf.hash === "SHA-256" &&
+      Number.isInteger(kdf.iterations) &&
+      kdf.iterations >= Math.min(...iterations) &&
+      kdf.iterations <= Math.max(...iterations)
+    );
+  }
+
+  generateKey(mode: SecurityMode = "balanced", source: RandomSource = secureRandom): string {
+    return bytesToHex(source(this.getKeySize(mode) / 8));
+  }
+
+  async encrypt(
+    plaintext: string,
+    key: string,
+    mode: SecurityMode = "balanced",
+    options: AESOptions = {}
+  ): Promise<string> {
+    const { timer } = options;
+    if ((options.cipherMode ?? "gcm") === "cbc") {
+      return this.encryptCbc(plaintext, key, mode, timer);
+    }
+
+    const data = timePhase(timer, "encoding", () => utf8Encode(plaintext));
+    const sealed = await this.encryptBytes(data, key, mode, options.associatedData, timer);
+    return timePhase(
+      timer,
+      "encoding",
+      () => GCM_PREFIX + bytesToHex(sealed.subarray(0, GCM_HEADER_BYTES)) + bytesToBase64(sealed.subarray(GCM_HEADER_BYTES))
+    );
+  }
+
+  // The cipher mode is detected from the ciphertext, so old CBC data keeps decrypting
+  async decrypt(
+    ciphertext: string,
+    key: string,
+    mode: SecurityMode = "balanced",
+    iterations: number = this.getIterations(mode),
+    options: Pick<AESOptions, "associatedData" | "timer"> = {}
+  ): Promise<string> {
+    const { timer } = options;
+    if (!ciphertext.startsWith(GCM_PREFIX)) {
+      return this.decryptCbc(ciphertext, key, mode, iterations, timer);
+    }
+
+    let sealed: Uint8Array<ArrayBuffer>;
+    try {
+      sealed = timePhase(timer, "encoding", () => {
+        const body = ciphertext.substring(GCM_PREFIX.length);
+        const header = hexToBytes(body.substr(0, GCM_HEADER_BYTES * 2));
+        const encrypted = base64ToBytes(body.substring(GCM_HEADER_BYTES * 2));
+        const joined = new Uint8Array(header.length + encrypted.length);
+        joined.set(header);
+        joined.set(encrypted, header.length);
+        return joined;
+      });
+    } catch (error) {
+      throw new Error(`AES decryption failed: ${error}`);
+    }
+
+    const decrypted = await this.decryptBytes(sealed, key, mode, iterations, options.associatedData, timer);
+    return timePhase(timer, "encoding", () => utf8Decode(decrypted));
+  }
+
+  // Binary AES-GCM: salt (16 bytes) || iv (12 bytes) || ciphertext || tag
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    key: string,
+    mode: SecurityMode = "balanced",
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const derivedKey = await timePhase(timer, "kdf", () =>
+        this.deriveGcmKey(key, salt, mode, this.getIterations(mode))
+      );
+
+      const encrypted = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: utf8Encode(associatedData) },
+        derivedKey,
+        data
+      );
+
+      const sealed = new Uint8Array(GCM_HEADER_BYTES + encrypted.byteLength);
+      sealed.set(salt);
+      sealed.set(iv, salt.length);
+      sealed.set(new Uint8Array(encrypted), GCM_HEADER_BYTES);
+      return sealed;
+    } catch (error) {
+      throw new Error(`AES encryption failed: ${error}`);
+    }
+  }
+
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    key: string,
+    mode: SecurityMode = "balanced",
+    iterations: number = this.getIterations(mode),
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    if (data.length < GCM_HEADER_BYTES + 16) {
+      throw new Error("AES decryption failed: ciphertext is too short");
+    }
+
+    let derivedKey: CryptoKey;
+    try {
+      derivedKey = await timePhase(timer, "kdf", () => this.deriveGcmKey(key, data.slice(0, 16), mode, iterations));
+    } catch (error) {
+      throw new Error(`AES decryption failed: ${error}`);
+    }
+
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: data.subarray(16, GCM_HEADER_BYTES), additionalData: utf8Encode(associatedData) },
+        derivedKey,
+        data.subarray(GCM_HEADER_BYTES)
+      );
+      return new Uint8Array(decrypted);
+    } catch {
+      throw new AuthenticationError(
+        "AES-GCM authentication failed: the key is wrong or the ciphertext was modified"
+      );
+    }
   }
 
-  encrypt(plaintext: string, key: string, mode: SecurityMode = "balanced"): string {
+  // Raw-key AES-256-GCM used by hybrid schemes that wrap a random content key.
+  // Output layout: iv (12 bytes) || ciphertext || tag
+  async sealWithRawKey(
+    rawKey: Uint8Array<ArrayBuffer>,
+    plaintext: Uint8Array<ArrayBuffer>,
+    associatedData: string = ""
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const cryptoKey = await crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["encrypt"]);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: utf8Encode(associatedData) },
+      cryptoKey,
+      plaintext
+    );
+
+    const sealed = new Uint8Array(iv.length + encrypted.byteLength);
+    sealed.set(iv);
+    sealed.set(new Uint8Array(encrypted), iv.length);
+    return sealed;
+  }
+
+  async openWithRawKey(
+    rawKey: Uint8Array<ArrayBuffer>,
+    sealed: Uint8Array<ArrayBuffer>,
+    associatedData: string = ""
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const cryptoKey = await crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["decrypt"]);
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: sealed.subarray(0, 12), additionalData: utf8Encode(associatedData) },
+        cryptoKey,
+        sealed.subarray(12)
+      );
+      return new Uint8Array(decrypted);
+    } catch {
+      throw new AuthenticationError(
+        "AES-GCM authentication failed: the key is wrong or the ciphertext was modified"
+      );
+    }
+  }
+
+  private async deriveGcmKey(
+    key: string,
+    salt: Uint8Array<ArrayBuffer>,
+    mode: SecurityMode,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey("raw", utf8Encode(key), "PBKDF2", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      baseKey,
+      { name: "AES-GCM", length: this.getKeySize(mode) },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  private encryptCbc(plaintext: string, key: string, mode: SecurityMode, timer?: PhaseTimer): string {
     try {
       const iterations = this.getIterations(mode);
       const salt = CryptoJS.lib.WordArray.random(128 / 8);
 
-      const derivedKey = CryptoJS.PBKDF2(key, salt, {
-        keySize: this.getKeySize(mode) / 32,
-        iterations: iterations,
-      });
+      const derivedKey = timePhase(timer, "kdf", () =>
+        CryptoJS.PBKDF2(key, salt, {
+          keySize: this.getKeySize(mode) / 32,
+          iterations: iterations,
+        })
+      );
 
       const iv = CryptoJS.lib.WordArray.random(128 / 8);
 
@@ -54,18 +262,18 @@ export class AESCipher {
     }
   }
 
-  decrypt(ciphertext: string, key: string, mode: SecurityMode = "balanced"): string {
+  private decryptCbc(ciphertext: string, key: string, mode: SecurityMode, iterations: number, timer?: PhaseTimer): string {
     try {
       const salt = CryptoJS.enc.Hex.parse(ciphertext.substr(0, 32));
       const iv = CryptoJS.enc.Hex.parse(ciphertext.substr(32, 32));
       const encrypted = ciphertext.substring(64);
 
-      const iterations = this.getIterations(mode);
-
-      const derivedKey = CryptoJS.PBKDF2(key, salt, {
-        keySize: this.getKeySize(mode) / 32,
-        iterations: iterations,
-      });
+      const derivedKey = timePhase(timer, "kdf", () =>
+        CryptoJS.PBKDF2(key, salt, {
+          keySize: this.getKeySize(mode) / 32,
+          iterations: iterations,
+        })
+      );
 
       const decrypted = CryptoJS.AES.decrypt(encrypted, derivedKey, {
         iv: iv,
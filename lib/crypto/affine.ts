@@ -0,0 +1,97 @@
+import { RandomSource, randomInt, secureRandom } from "./random";
+
+export interface AffineKey {
+  a: number;
+  b: number;
+}
+
+// Odd and not a multiple of 13, so `a` is invertible mod 26 and mod 256 alike.
+// 1 is left out of generated keys: with a = 1 the cipher is a Caesar shift.
+const GENERATED_MULTIPLIERS = [3, 5, 7, 9, 11, 15, 17, 19, 21, 23, 25];
+
+// E(x) = a·x + b: letters mod 26 (case kept, other characters pass through), bytes mod 256
+export class AffineCipher {
+  private readonly ALPHABET_SIZE = 26;
+
+  generateKey(source: RandomSource = secureRandom): AffineKey {
+    return {
+      a: GENERATED_MULTIPLIERS[randomInt(GENERATED_MULTIPLIERS.length, source)],
+      b: randomInt(this.ALPHABET_SIZE, source),
+    };
+  }
+
+  formatKey({ a, b }: AffineKey): string {
+    return `a=${a},b=${b}`;
+  }
+
+  parseKey(key: string): AffineKey {
+    const match = /^a=(\d+),b=(\d+)$/i.exec(key.replace(/\s+/g, ""));
+    if (!match) {
+      throw new Error("Invalid Affine key format: must be a=N,b=M, e.g. a=5,b=8");
+    }
+    const parsed = { a: Number(match[1]), b: Number(match[2]) };
+    this.validateKey(parsed);
+    return parsed;
+  }
+
+  validateKey({ a }: AffineKey): void {
+    if (a % 2 === 0 || a % 13 === 0) {
+      throw new Error("Invalid Affine key: a must be odd and not a multiple of 13 to be invertible");
+    }
+  }
+
+  encrypt(plaintext: string, key: AffineKey): string {
+    return this.processText(plaintext, key.a, key.b);
+  }
+
+  // D(y) = a⁻¹·(y - b), which is another affine map
+  decrypt(ciphertext: string, key: AffineKey): string {
+    const inverse = this.modInverse(key.a, this.ALPHABET_SIZE);
+    return this.processText(ciphertext, inverse, -inverse * key.b);
+  }
+
+  encryptBytes(data: Uint8Array, key: AffineKey): Uint8Array<ArrayBuffer> {
+    return this.processBytes(data, key.a, key.b);
+  }
+
+  decryptBytes(data: Uint8Array, key: AffineKey): Uint8Array<ArrayBuffer> {
+    const inverse = this.modInverse(key.a, 256);
+    return this.processBytes(data, inverse, -inverse * key.b);
+  }
+
+  private processText(text: string, a: number, b: number): string {
+    let result = "";
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (/[a-zA-Z]/.test(char)) {
+        const base = char === char.toUpperCase() ? 65 : 97;
+        result += String.fromCharCode(base + this.mod(a * (char.charCodeAt(0) - base) + b, this.ALPHABET_SIZE));
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  private processBytes(data: Uint8Array, a: number, b: number): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      result[i] = this.mod(a * data[i] + b, 256);
+    }
+    return result;
+  }
+
+  private mod(value: number, modulus: number): number {
+    return ((value % modulus) + modulus) % modulus;
+  }
+
+  private modInverse(a: number, m: number): number {
+    a = this.mod(a, m);
+    for (let x = 1; x < m; x++) {
+      if ((a * x) % m === 1) {
+        return x;
+      }
+    }
+    throw new Error(`Affine key is not invertible mod ${m}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes, bytesToHex, hexToBytes } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// The symbols a substitution cipher shifts. Characters outside the alphabet pass through unchanged,
+// and letter case is kept: upper and lower case share an index.
+export type AlphabetId = "latin" | "greek" | "cyrillic" | "arabic" | "ascii" | "bytes";
+
+export interface Alphabet {
+  id: AlphabetId;
+  name: string;
+  size: number;
+  // Index of the character and whether it was lower case; null when it is not in the alphabet
+  lookup(char: string): { index: number; lower: boolean } | null;
+  symbol(index: number, lower?: boolean): string;
+}
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => String.fromCodePoint(from + i));
+
+function createAlphabet(id: AlphabetId, name: string, upper: string[], lower: string[] = []): Alphabet {
+  const indices = new Map<string, { index: number; lower: boolean }>();
+  upper.forEach((char, index) => indices.set(char, { index, lower: false }));
+  lower.forEach((char, index) => indices.set(char, { index, lower: true }));
+  return {
+    id,
+    name,
+    size: upper.length,
+    lookup: (char) => indices.get(char) ?? null,
+    symbol: (index, isLower = false) => (isLower && lower.length > 0 ? lower : upper)[index],
+  };
+}
+
+// Greek leaves out U+03A2 (unassigned) and final sigma ς, which has no capital and so passes through;
+// accented letters pass through as well. Cyrillic covers the basic block, А-Я then Ѐ-Џ, so Russian,
+// Ukrainian, Belarusian, Serbian and Macedonian letters all shift. Arabic has no case: hamza through
+// ghain, then feh through yeh. Printable ASCII includes the space; the byte range shifts every UTF-8
+// byte of text and writes the result as base64.
+export const ALPHABETS: Record<AlphabetId, Alphabet> = {
+  latin: createAlphabet("latin", "Latin (A-Z)", range(0x41, 0x5a), range(0x61, 0x7a)),
+  greek: createAlphabet(
+    "greek",
+    "Greek (Α-Ω)",
+    range(0x391, 0x3a9).filter((c) => c.codePointAt(0) !== 0x3a2),
+    range(0x3b1, 0x3c9).filter((c) => c.codePointAt(0) !== 0x3c2)
+  ),
+  cyrillic: createAlphabet(
+    "cyrillic",
+    "Cyrillic (А-Я, Ѐ-Џ)",
+    [...range(0x410, 0x42f), ...range(0x400, 0x40f)],
+    [...range(0x430, 0x44f), ...range(0x450, 0x45f)]
+  ),
+  arabic: createAlphabet("arabic", "Arabic (ء-ي)", [...range(0x621, 0x63a), ...range(0x641, 0x64a)]),
+  ascii: createAlphabet("ascii", "Printable ASCII", range(0x20, 0x7e)),
+  bytes: createAlphabet("bytes", "Full byte range", range(0x00, 0xff)),
+};
+
+export const DEFAULT_ALPHABET = ALPHABETS.latin;
+
+// Keys name their alphabet with a prefix such as "greek:". A key without one is Latin, which is what
+// every key meant before alphabets existed.
+export function parseAlphabetKey(key: string): { alphabet: Alphabet; body: string } {
+  const separator = key.indexOf(":");
+  const prefix = key.substring(0, separator);
+  if (separator > 0 && Object.hasOwn(ALPHABETS, prefix)) {
+    return { alphabet: ALPHABETS[prefix as AlphabetId], body: key.substring(separator + 1) };
+  }
+  return { alphabet: DEFAULT_ALPHABET, body: key };
+}
+
+export function formatAlphabetKey(alphabet: Alphabet, body: string): string {
+  return alphabet.id === DEFAULT_ALPHABET.id ? body : `${alphabet.id}:${body}`;
+}
+
+// Symbol indices of a key written in the alphabet; byte-range keys are hex
+export function keySymbols(alphabet: Alphabet, body: string): number[] {
+  if (alphabet.id === "bytes") {
+    return [...hexToBytes(body)];
+  }
+  return [...body].map((char) => {
+    const entry = alphabet.lookup(char);
+    if (!entry) {
+      throw new Error(`"${char}" is not in the ${alphabet.name} alphabet`);
+    }
+    return entry.index;
+  });
+}
+
+export function formatKeySymbols(alphabet: Alphabet, indices: number[]): string {
+  return alphabet.id === "bytes" ? bytesToHex(Uint8Array.from(indices)) : indices.map((i) => alphabet.symbol(i)).join("");
+}
+
+// Runs `transform` over the alphabet's symbols in order; `position` counts symbols only, so key
+// streams skip the characters that pass through
+export function substituteText(
+  text: string,
+  alphabet: Alphabet,
+  transform: (index: number, position: number) => number,
+  decrypting: boolean,
+  timer?: PhaseTimer
+): string {
+  if (alphabet.id === "bytes") {
+    const input = timePhase(timer, "encoding", () => (decrypting ? base64ToBytes(text) : utf8Encode(text)));
+    const output = substituteBytes(input, transform);
+    return timePhase(timer, "encoding", () => (decrypting ? utf8Decode(output) : bytesToBase64(output)));
+  }
+
+  let result = "";
+  let position = 0;
+  for (const char of text) {
+    const entry = alphabet.lookup(char);
+    if (entry) {
+      result += alphabet.symbol(transform(entry.index, position++), entry.lower);
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+export function substituteBytes(
+  data: Uint8Array,
+  transform: (index: number, position: number) => number
+): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    result[i] = transform(data[i], i);
+  }
+  return result;
+}
@@ -0,0 +1,145 @@
+import type { EncryptionManager } from "./encryption-manager";
+import { CipherAlgorithm, SecurityMode } from "./types";
+
+// Payload sizes of the sweep, 1 KB to 10 MB
+export const BENCHMARK_SIZES = [1024, 10 * 1024, 100 * 1024, 1024 * 1024, 10 * 1024 * 1024];
+
+// Something to benchmark: one algorithm on its own, or a preset's whole layer stack
+export interface BenchmarkSubject {
+  kind: "algorithm" | "preset";
+  label: string;
+  algorithms: CipherAlgorithm[];
+  securityMode: SecurityMode;
+}
+
+// Milliseconds of each timed trial
+export interface BenchmarkSamples {
+  encrypt: number[];
+  decrypt: number[];
+}
+
+export interface BenchmarkStats {
+  mean: number;
+  p95: number;
+  stddev: number;
+}
+
+export interface BenchmarkResult {
+  subject: BenchmarkSubject;
+  size: number;
+  trials: number;
+  // Milliseconds
+  encryptTime: BenchmarkStats;
+  decryptTime: BenchmarkStats;
+  // Bytes per second, from each trial's own time
+  encryptThroughput: BenchmarkStats;
+  decryptThroughput: BenchmarkStats;
+}
+
+// Population standard deviation; p95 is the nearest-rank percentile
+export function summarize(values: number[]): BenchmarkStats {
+  if (values.length === 0) {
+    return { mean: 0, p95: 0, stddev: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const p95 = sorted[Math.min(sorted.length - 1, Math.ceil(0.95 * sorted.length) - 1)];
+  return { mean, p95, stddev: Math.sqrt(variance) };
+}
+
+export function summarizeSamples(subject: BenchmarkSubject, size: number, samples: BenchmarkSamples): BenchmarkResult {
+  const throughput = (times: number[]) => times.map((ms) => size / (Math.max(ms, 0.001) / 1000));
+  return {
+    subject,
+    size,
+    trials: samples.encrypt.length,
+    encryptTime: summarize(samples.encrypt),
+    decryptTime: summarize(samples.decrypt),
+    encryptThroughput: summarize(throughput(samples.encrypt)),
+    decryptThroughput: summarize(throughput(samples.decrypt)),
+  };
+}
+
+// getRandomValues fills at most 64 KiB per call
+function randomPayload(size: number): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(size);
+  for (let offset = 0; offset < size; offset += 65536) {
+    crypto.getRandomValues(data.subarray(offset, Math.min(offset + 65536, size)));
+  }
+  return data;
+}
+
+// Times the binary pipeline over a random payload. Keys are generated once, outside the timings;
+// warm-up runs are discarded, and the first one also checks that the layers round-trip.
+export async function measurePipeline(
+  manager: EncryptionManager,
+  algorithms: CipherAlgorithm[],
+  mode: SecurityMode,
+  size: number,
+  warmup: number,
+  trials: number
+): Promise<BenchmarkSamples> {
+  const data = randomPayload(size);
+  const keys: string[] = [];
+  for (const algorithm of algorithms) {
+    keys.push(await manager.generateKey(algorithm, mode));
+  }
+
+  const samples: BenchmarkSamples = { encrypt: [], decrypt: [] };
+  for (let run = 0; run < warmup + trials; run++) {
+    const encryptStart = performance.now();
+    const { encrypted } = await manager.multiLayerEncryptBytes(data, algorithms, mode, keys);
+    const decryptStart = performance.now();
+    const { decrypted } = await manager.multiLayerDecryptBytes(encrypted, keys);
+    const end = performance.now();
+
+    if (run === 0 && (decrypted.length !== data.length || decrypted.some((byte, i) => byte !== data[i]))) {
+      throw new Error(`${algorithms.join(" → ")} does not round-trip binary data, so it cannot be benchmarked`);
+    }
+    if (run >= warmup) {
+      samples.encrypt.push(decryptStart - encryptStart);
+      samples.decrypt.push(end - decryptStart);
+    }
+  }
+  return samples;
+}
+
+const CSV_COLUMNS = [
+  "kind",
+  "subject",
+  "algorithms",
+  "security_mode",
+  "size_bytes",
+  "trials",
+  ...["encrypt_ms", "decrypt_ms", "encrypt_bytes_per_s", "decrypt_bytes_per_s"].flatMap((metric) =>
+    ["mean", "p95", "stddev"].map((stat) => `${metric}_${stat}`)
+  ),
+];
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function benchmarkToCsv(results: BenchmarkResult[]): string {
+  const rows = results.map((result) => {
+    const stats = [result.encryptTime, result.decryptTime, result.encryptThroughput, result.decryptThroughput];
+    return [
+      result.subject.kind,
+      result.subject.label,
+      result.subject.algorithms.join(" "),
+      result.subject.securityMode,
+      result.size,
+      result.trials,
+      ...stats.flatMap(({ mean, p95, stddev }) => [mean, p95, stddev].map((value) => Number(value.toFixed(3)))),
+    ]
+      .map(csvField)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function benchmarkToJson(results: BenchmarkResult[], settings: { warmup: number; trials: number }): string {
+  return JSON.stringify({ generatedAt: new Date().toISOString(), ...settings, results }, null, 2);
+}
@@ -1,5 +1,22 @@
 import CryptoJS from "crypto-js";
 import { SecurityMode } from "./types";
+import { RandomSource, secureRandom } from "./random";
+import { utf8Encode, utf8Decode, bytesToHex, hexToBytes, bytesToBase64, base64ToBytes, removePkcs7Padding } from "./encoding";
+import { bytesToWordArray, wordArrayToBytes } from "./word-array";
+import { PhaseTimer, timePhase } from "./metrics";
+
+export type BlowfishMode = "cbc" | "ctr";
+
+// Version 1 is crypto-js's passphrase format: the hex key went through EVP_BytesToKey (MD5) with a
+// random salt, giving an OpenSSL "Salted__" layout. Version 2 uses the key bytes directly.
+// Binary v2 layout: version (1 byte) || block mode (1 byte) || iv (8 bytes) || ciphertext.
+// It cannot be confused with v1, whose binary form always starts with "S".
+const FORMAT_VERSION = 2;
+const TEXT_PREFIX = "bf2:";
+const MODE_TAGS: Record<BlowfishMode, number> = { cbc: 0x01, ctr: 0x02 };
+const BLOCK_BYTES = 8;
+const HEADER_BYTES = 2 + BLOCK_BYTES;
+const LEGACY_MAGIC = "Salted__";
 
 export class BlowfishCipher {
   private getKeySize(mode: SecurityMode): number {
@@ -13,21 +30,111 @@ export class BlowfishCipher {
     }
   }
 
-  generateKey(mode: SecurityMode = "balanced"): string {
-    const keySize = this.getKeySize(mode) / 8;
-    return CryptoJS.lib.WordArray.random(keySize).toString();
+  // CTR needs no padding, which keeps lightweight output small
+  getBlockMode(mode: SecurityMode): BlowfishMode {
+    return mode === "lightweight" ? "ctr" : "cbc";
+  }
+
+  generateKey(mode: SecurityMode = "balanced", source: RandomSource = secureRandom): string {
+    return bytesToHex(source(this.getKeySize(mode) / 8));
+  }
+
+  // crypto-js schedules the key a 32-bit word at a time, so lengths must be whole words
+  validateKey(key: string): void {
+    let length: number;
+    try {
+      length = hexToBytes(key).length;
+    } catch {
+      throw new Error("Invalid Blowfish key: must be hexadecimal");
+    }
+    if (length < 4 || length > 56 || length % 4 !== 0) {
+      throw new Error("Invalid Blowfish key: must be 32 to 448 bits, in steps of 32");
+    }
+  }
+
+  private getOptions(blockMode: BlowfishMode, iv: Uint8Array) {
+    return {
+      iv: bytesToWordArray(iv),
+      mode: blockMode === "ctr" ? CryptoJS.mode.CTR : CryptoJS.mode.CBC,
+      // CBC padding is checked by hand below: crypto-js strips it without validating
+      padding: CryptoJS.pad.NoPadding,
+    };
   }
 
-  encrypt(plaintext: string, key: string): string {
+  encryptBytes(data: Uint8Array, key: string, blockMode: BlowfishMode = "cbc"): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    const iv = crypto.getRandomValues(new Uint8Array(BLOCK_BYTES));
+    let encrypted: Uint8Array<ArrayBuffer>;
     try {
-      const encrypted = CryptoJS.Blowfish.encrypt(plaintext, key);
-      return encrypted.toString();
+      const input = blockMode === "cbc" ? this.addPadding(data) : data;
+      const result = CryptoJS.Blowfish.encrypt(bytesToWordArray(input), bytesToWordArray(hexToBytes(key)), this.getOptions(blockMode, iv));
+      encrypted = wordArrayToBytes(result.ciphertext);
     } catch (error) {
       throw new Error(`Blowfish encryption failed: ${error}`);
     }
+
+    const output = new Uint8Array(HEADER_BYTES + encrypted.length);
+    output[0] = FORMAT_VERSION;
+    output[1] = MODE_TAGS[blockMode];
+    output.set(iv, 2);
+    output.set(encrypted, HEADER_BYTES);
+    return output;
   }
 
-  decrypt(ciphertext: string, key: string): string {
+  // The format and block mode are read from the data, so v1 ciphertexts keep decrypting
+  decryptBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    if (data[0] !== FORMAT_VERSION) {
+      return this.decryptLegacyBytes(data, key);
+    }
+    const blockMode = (Object.keys(MODE_TAGS) as BlowfishMode[]).find((name) => MODE_TAGS[name] === data[1]);
+    if (!blockMode) {
+      throw new Error("Blowfish decryption failed: unknown block mode");
+    }
+    if (data.length < HEADER_BYTES || (blockMode === "cbc" && (data.length - HEADER_BYTES) % BLOCK_BYTES !== 0)) {
+      throw new Error("Blowfish decryption failed: ciphertext is truncated");
+    }
+    this.validateKey(key);
+
+    try {
+      const params = CryptoJS.lib.CipherParams.create({ ciphertext: bytesToWordArray(data.subarray(HEADER_BYTES)) });
+      const options = this.getOptions(blockMode, data.subarray(2, HEADER_BYTES));
+      const decrypted = wordArrayToBytes(CryptoJS.Blowfish.decrypt(params, bytesToWordArray(hexToBytes(key)), options));
+      return blockMode === "cbc" ? removePkcs7Padding(decrypted, BLOCK_BYTES) : decrypted;
+    } catch (error) {
+      throw new Error(`Blowfish decryption failed: ${error}`);
+    }
+  }
+
+  encrypt(plaintext: string, key: string, blockMode: BlowfishMode = "cbc", timer?: PhaseTimer): string {
+    const encrypted = this.encryptBytes(timePhase(timer, "encoding", () => utf8Encode(plaintext)), key, blockMode);
+    return timePhase(timer, "encoding", () => TEXT_PREFIX + bytesToBase64(encrypted));
+  }
+
+  decrypt(ciphertext: string, key: string, timer?: PhaseTimer): string {
+    if (!ciphertext.startsWith(TEXT_PREFIX)) {
+      return this.decryptLegacy(ciphertext, key);
+    }
+
+    let data: Uint8Array<ArrayBuffer>;
+    try {
+      data = timePhase(timer, "encoding", () => base64ToBytes(ciphertext.substring(TEXT_PREFIX.length)));
+    } catch {
+      throw new Error("Blowfish decryption failed: ciphertext is not valid base64");
+    }
+    const decrypted = this.decryptBytes(data, key);
+    return timePhase(timer, "encoding", () => utf8Decode(decrypted));
+  }
+
+  private addPadding(data: Uint8Array): Uint8Array {
+    const padding = BLOCK_BYTES - (data.length % BLOCK_BYTES);
+    const padded = new Uint8Array(data.length + padding);
+    padded.set(data);
+    padded.fill(padding, data.length);
+    return padded;
+  }
+
+  // v1 text is base64 of the "Salted__" layout, with the hex key used as a passphrase
+  private decryptLegacy(ciphertext: string, key: string): string {
     try {
       const decrypted = CryptoJS.Blowfish.decrypt(ciphertext, key);
       const result = decrypted.toString(CryptoJS.enc.Utf8);
@@ -42,4 +149,15 @@ export class BlowfishCipher {
       throw new Error(`Blowfish decryption failed: ${error}`);
     }
   }
+
+  private decryptLegacyBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    if (utf8Decode(data.subarray(0, LEGACY_MAGIC.length)) !== LEGACY_MAGIC) {
+      throw new Error("Blowfish decryption failed: unknown format");
+    }
+    try {
+      return wordArrayToBytes(CryptoJS.Blowfish.decrypt(bytesToBase64(data), key));
+    } catch (error) {
+      throw new Error(`Blowfish decryption failed: ${error}`);
+    }
+  }
 }
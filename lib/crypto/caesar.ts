@@ -1,63 +1,61 @@
 import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom } from "./random";
+import { PhaseTimer } from "./metrics";
+import { Alphabet, DEFAULT_ALPHABET, substituteText, substituteBytes, formatAlphabetKey } from "./alphabet";
 
 export class CaesarCipher {
-  private readonly ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  encrypt(plaintext: string, shift: number, alphabet: Alphabet = DEFAULT_ALPHABET, timer?: PhaseTimer): string {
+    return this.processText(plaintext, shift, alphabet, true, timer);
+  }
 
-  encrypt(plaintext: string, shift: number): string {
-    return this.processText(plaintext, shift, true);
+  decrypt(ciphertext: string, shift: number, alphabet: Alphabet = DEFAULT_ALPHABET, timer?: PhaseTimer): string {
+    return this.processText(ciphertext, shift, alphabet, false, timer);
   }
 
-  decrypt(ciphertext: string, shift: number): string {
-    return this.processText(ciphertext, shift, false);
+  // Binary data is shifted over the full byte range (mod 256), whatever the alphabet
+  encryptBytes(data: Uint8Array, shift: number): Uint8Array<ArrayBuffer> {
+    return this.processBytes(data, shift);
   }
 
-  private processText(text: string, shift: number, isEncrypt: boolean): string {
-    // Normalize shift to 0-25 range
-    shift = ((shift % 26) + 26) % 26;
-    if (!isEncrypt) {
-      shift = 26 - shift;
-    }
+  decryptBytes(data: Uint8Array, shift: number): Uint8Array<ArrayBuffer> {
+    return this.processBytes(data, -shift);
+  }
 
-    let result = "";
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-
-      if (char.match(/[a-z]/i)) {
-        const isUpperCase = char === char.toUpperCase();
-        const charCode = char.toUpperCase().charCodeAt(0);
-        const alphabetIndex = charCode - 65; // A=0, B=1, etc.
-        const newIndex = (alphabetIndex + shift) % 26;
-        const newChar = this.ALPHABET[newIndex];
-
-        result += isUpperCase ? newChar : newChar.toLowerCase();
-      } else {
-        result += char;
-      }
-    }
+  private processBytes(data: Uint8Array, shift: number): Uint8Array<ArrayBuffer> {
+    return substituteBytes(data, (byte) => (byte + shift + 256) & 0xff);
+  }
 
-    return result;
+  private processText(text: string, shift: number, alphabet: Alphabet, isEncrypt: boolean, timer?: PhaseTimer): string {
+    const size = alphabet.size;
+    // Normalize shift to the 0..size-1 range
+    shift = ((shift % size) + size) % size;
+    if (!isEncrypt) {
+      shift = (size - shift) % size;
+    }
+    return substituteText(text, alphabet, (index) => (index + shift) % size, !isEncrypt, timer);
   }
 
-  generateKey(mode: SecurityMode): number {
-    // Generate random shift based on security mode
+  // Shifts go up to the whole alphabet in high mode, about 3/4 of it in balanced mode and half of it
+  // (ROT13 for Latin) in lightweight mode
+  generateKey(mode: SecurityMode, source: RandomSource = secureRandom, alphabet: Alphabet = DEFAULT_ALPHABET): number {
     let maxShift: number;
     switch (mode) {
       case "high":
-        maxShift = 25; // Full range
+        maxShift = alphabet.size - 1; // Full range
         break;
       case "balanced":
-        maxShift = 20;
+        maxShift = Math.round((alphabet.size * 20) / 26);
         break;
       case "lightweight":
-        maxShift = 13; // ROT13
+        maxShift = Math.ceil(alphabet.size / 2);
         break;
     }
 
     // Generate random shift (1 to maxShift, avoid 0 as it's no encryption)
-    return Math.floor(Math.random() * maxShift) + 1;
+    return randomInt(maxShift, source) + 1;
   }
 
-  formatKey(shift: number): string {
-    return `SHIFT-${shift}`;
+  formatKey(shift: number, alphabet: Alphabet = DEFAULT_ALPHABET): string {
+    return formatAlphabetKey(alphabet, `SHIFT-${shift}`);
   }
 }
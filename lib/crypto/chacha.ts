@@ -0,0 +1,152 @@
+import { chacha20poly1305, xchacha20poly1305 } from "@noble/ciphers/chacha.js";
+import { SecurityMode } from "./types";
+import { AuthenticationError } from "./errors";
+import { RandomSource, secureRandom } from "./random";
+import { utf8Encode, utf8Decode, bytesToHex, hexToBytes, bytesToBase64, base64ToBytes } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// Lightweight mode uses IETF ChaCha20-Poly1305 (96-bit nonce, smaller output); the other modes use
+// XChaCha20-Poly1305, whose 192-bit nonce is safe to pick at random for any number of messages.
+type ChaChaVariant = "chacha20" | "xchacha20";
+
+// Text output: prefix + base64(nonce || ciphertext || tag). Binary output starts with the variant tag byte.
+const VARIANTS: Record<ChaChaVariant, { prefix: string; tag: number; nonceBytes: number }> = {
+  chacha20: { prefix: "c20p:", tag: 0x01, nonceBytes: 12 },
+  xchacha20: { prefix: "xc20p:", tag: 0x02, nonceBytes: 24 },
+};
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const KEY_INFO = "super-cipher/chacha20/key";
+
+export class ChaChaCipher {
+  private getKeySize(mode: SecurityMode): number {
+    switch (mode) {
+      case "high":
+        return 256;
+      case "balanced":
+        return 256;
+      case "lightweight":
+        return 128;
+    }
+  }
+
+  getVariant(mode: SecurityMode): ChaChaVariant {
+    return mode === "lightweight" ? "chacha20" : "xchacha20";
+  }
+
+  generateKey(mode: SecurityMode = "balanced", source: RandomSource = secureRandom): string {
+    return bytesToHex(source(this.getKeySize(mode) / 8));
+  }
+
+  validateKey(key: string): void {
+    let length: number;
+    try {
+      length = hexToBytes(key).length;
+    } catch {
+      throw new Error("Invalid ChaCha20 key: must be hexadecimal");
+    }
+    if (length !== 16 && length !== KEY_BYTES) {
+      throw new Error("Invalid ChaCha20 key: must be 128 or 256 bits");
+    }
+  }
+
+  // ChaCha20 only takes 256-bit keys; shorter keys are expanded with HKDF-SHA256
+  private async deriveKey(key: string): Promise<Uint8Array<ArrayBuffer>> {
+    this.validateKey(key);
+    const raw = hexToBytes(key);
+    if (raw.length === KEY_BYTES) {
+      return raw;
+    }
+    const hkdfKey = await crypto.subtle.importKey("raw", raw, "HKDF", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: utf8Encode(KEY_INFO) },
+      hkdfKey,
+      KEY_BYTES * 8
+    );
+    return new Uint8Array(bits);
+  }
+
+  private createAead(variant: ChaChaVariant, key: Uint8Array, nonce: Uint8Array, associatedData: string) {
+    const aead = variant === "xchacha20" ? xchacha20poly1305 : chacha20poly1305;
+    return aead(key, nonce, utf8Encode(associatedData));
+  }
+
+  // Binary layout: variant tag (1 byte) || nonce || ciphertext || Poly1305 tag (16 bytes)
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    key: string,
+    mode: SecurityMode = "balanced",
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const variant = this.getVariant(mode);
+    const { tag, nonceBytes } = VARIANTS[variant];
+    const nonce = crypto.getRandomValues(new Uint8Array(nonceBytes));
+    const rawKey = await timePhase(timer, "kdf", () => this.deriveKey(key));
+    const sealed = this.createAead(variant, rawKey, nonce, associatedData).encrypt(data);
+
+    const output = new Uint8Array(1 + nonceBytes + sealed.length);
+    output[0] = tag;
+    output.set(nonce, 1);
+    output.set(sealed, 1 + nonceBytes);
+    return output;
+  }
+
+  // The variant is read from the data, so decryption does not depend on the current mode
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    key: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const variant = (Object.keys(VARIANTS) as ChaChaVariant[]).find((name) => VARIANTS[name].tag === data[0]);
+    if (!variant) {
+      throw new Error("ChaCha20 decryption failed: unknown format");
+    }
+    const { nonceBytes } = VARIANTS[variant];
+    if (data.length < 1 + nonceBytes + TAG_BYTES) {
+      throw new Error("ChaCha20 decryption failed: ciphertext is truncated");
+    }
+
+    const rawKey = await timePhase(timer, "kdf", () => this.deriveKey(key));
+    try {
+      const nonce = data.subarray(1, 1 + nonceBytes);
+      return new Uint8Array(this.createAead(variant, rawKey, nonce, associatedData).decrypt(data.subarray(1 + nonceBytes)));
+    } catch {
+      throw new AuthenticationError(
+        "ChaCha20-Poly1305 authentication failed: the key is wrong or the ciphertext was modified"
+      );
+    }
+  }
+
+  async encrypt(
+    plaintext: string,
+    key: string,
+    mode: SecurityMode = "balanced",
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<string> {
+    const data = timePhase(timer, "encoding", () => utf8Encode(plaintext));
+    const sealed = await this.encryptBytes(data, key, mode, associatedData, timer);
+    return timePhase(timer, "encoding", () => VARIANTS[this.getVariant(mode)].prefix + bytesToBase64(sealed.subarray(1)));
+  }
+
+  async decrypt(ciphertext: string, key: string, associatedData: string = "", timer?: PhaseTimer): Promise<string> {
+    const variant = (Object.keys(VARIANTS) as ChaChaVariant[]).find((name) => ciphertext.startsWith(VARIANTS[name].prefix));
+    if (!variant) {
+      throw new Error("ChaCha20 decryption failed: not a ChaCha20 ciphertext");
+    }
+
+    let body: Uint8Array<ArrayBuffer>;
+    try {
+      body = timePhase(timer, "encoding", () => base64ToBytes(ciphertext.substring(VARIANTS[variant].prefix.length)));
+    } catch {
+      throw new Error("ChaCha20 decryption failed: ciphertext is not valid base64");
+    }
+    const data = new Uint8Array(1 + body.length);
+    data[0] = VARIANTS[variant].tag;
+    data.set(body, 1);
+    const decrypted = await this.decryptBytes(data, key, associatedData, timer);
+    return timePhase(timer, "encoding", () => utf8Decode(decrypted));
+  }
+}
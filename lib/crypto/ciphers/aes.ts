@@ -0,0 +1,31 @@
+import { AESCipher } from "../aes";
+import { CipherDescriptor } from "../registry";
+import { analyzeSecretKey } from "../entropy";
+
+const aes = new AESCipher();
+
+export const aesDescriptor: CipherDescriptor = {
+  id: "aes",
+  name: "AES (Advanced Encryption Standard)",
+  icon: "🔐",
+  color: "from-blue-500 to-cyan-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "gcm: prefix, hex header and base64 body",
+  describeKey: (mode) => {
+    const aesSize = mode === "high" ? 256 : mode === "balanced" ? 192 : 128;
+    return `${aesSize}-bit random hexadecimal key using WordArray, authenticated with AES-GCM`;
+  },
+  generateKey: (mode, source) => aes.generateKey(mode, source),
+  validateKey: (key) => {
+    if (!key || key.trim() === "") {
+      throw new Error("AES key is missing. Please regenerate keys.");
+    }
+  },
+  analyzeKey: (key) => analyzeSecretKey(key),
+  encrypt: (plaintext, key, { mode, associatedData, timer }) => aes.encrypt(plaintext, key, mode, { associatedData, timer }),
+  decrypt: (ciphertext, key, { mode, kdf, associatedData, timer }) =>
+    aes.decrypt(ciphertext, key, mode, kdf?.iterations, { associatedData, timer }),
+  encryptBytes: (data, key, { mode, associatedData, timer }) => aes.encryptBytes(data, key, mode, associatedData, timer),
+  decryptBytes: (data, key, { mode, kdf, associatedData, timer }) =>
+    aes.decryptBytes(data, key, mode, kdf?.iterations, associatedData, timer),
+};
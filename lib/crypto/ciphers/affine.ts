@@ -0,0 +1,31 @@
+import { AffineCipher } from "../affine";
+import { CipherDescriptor } from "../registry";
+
+const affine = new AffineCipher();
+
+export const affineDescriptor: CipherDescriptor = {
+  id: "affine",
+  name: "Affine Cipher",
+  icon: "📐",
+  color: "from-sky-500 to-indigo-500",
+  inputAlphabet: "A-Z / a-z (other characters pass through)",
+  outputAlphabet: "Same as input",
+  describeKey: () => "Random multiplier a (coprime to 26) and shift b: each letter x becomes a·x + b mod 26",
+  generateKey: (_mode, source) => affine.formatKey(affine.generateKey(source)),
+  validateKey: (key) => {
+    affine.parseKey(key);
+  },
+  // 12 multipliers × 26 shifts on letters; two letters of known plaintext solve for a and b
+  analyzeKey: (key) => {
+    const { a, b } = affine.parseKey(key);
+    const warnings = ["Only 312 possible keys, and two letters of known plaintext give the key away"];
+    if (a % 26 === 1) {
+      warnings.push(b % 26 === 0 ? "a = 1 and b = 0: letters come out unchanged" : "a = 1: this is just a Caesar shift");
+    }
+    return { entropyBits: a % 26 === 1 && b % 26 === 0 ? 0 : Math.log2(12 * 26), warnings };
+  },
+  encrypt: (plaintext, key) => affine.encrypt(plaintext, affine.parseKey(key)),
+  decrypt: (ciphertext, key) => affine.decrypt(ciphertext, affine.parseKey(key)),
+  encryptBytes: (data, key) => affine.encryptBytes(data, affine.parseKey(key)),
+  decryptBytes: (data, key) => affine.decryptBytes(data, affine.parseKey(key)),
+};
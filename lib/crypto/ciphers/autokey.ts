@@ -0,0 +1,8 @@
+import { createVigenereDescriptor } from "./vigenere";
+
+export const autokeyDescriptor = createVigenereDescriptor("autokey", {
+  id: "autokey",
+  name: "Autokey Cipher",
+  icon: "🔁",
+  color: "from-lime-500 to-green-600",
+});
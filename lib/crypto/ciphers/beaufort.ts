@@ -0,0 +1,8 @@
+import { createVigenereDescriptor } from "./vigenere";
+
+export const beaufortDescriptor = createVigenereDescriptor("beaufort", {
+  id: "beaufort",
+  name: "Beaufort Cipher",
+  icon: "⚓",
+  color: "from-blue-600 to-sky-500",
+});
@@ -0,0 +1,30 @@
+import { BlowfishCipher } from "../blowfish";
+import { CipherDescriptor } from "../registry";
+import { analyzeSecretKey } from "../entropy";
+
+const blowfish = new BlowfishCipher();
+
+export const blowfishDescriptor: CipherDescriptor = {
+  id: "blowfish",
+  name: "Blowfish",
+  icon: "🐡",
+  color: "from-indigo-500 to-violet-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "bf2: prefix and base64",
+  describeKey: (mode) => {
+    const bfSize = mode === "high" ? 448 : mode === "balanced" ? 256 : 128;
+    return `${bfSize}-bit random hexadecimal key used directly, Blowfish-${blowfish.getBlockMode(mode).toUpperCase()} with a random 64-bit IV`;
+  },
+  generateKey: (mode, source) => blowfish.generateKey(mode, source),
+  validateKey: (key) => {
+    if (!key || key.trim() === "") {
+      throw new Error("Blowfish key is missing. Please regenerate keys.");
+    }
+    blowfish.validateKey(key);
+  },
+  analyzeKey: (key) => analyzeSecretKey(key),
+  encrypt: (plaintext, key, { mode, timer }) => blowfish.encrypt(plaintext, key, blowfish.getBlockMode(mode), timer),
+  decrypt: (ciphertext, key, { timer }) => blowfish.decrypt(ciphertext, key, timer),
+  encryptBytes: (data, key, { mode }) => blowfish.encryptBytes(data, key, blowfish.getBlockMode(mode)),
+  decryptBytes: (data, key) => blowfish.decryptBytes(data, key),
+};
@@ -0,0 +1,55 @@
+import { CaesarCipher } from "../caesar";
+import { CipherDescriptor } from "../registry";
+import { Alphabet, parseAlphabetKey } from "../alphabet";
+
+const caesar = new CaesarCipher();
+
+// SHIFT-N, optionally after an alphabet prefix such as "greek:"
+export function parseCaesarKey(key: string): { shift: number; alphabet: Alphabet } {
+  const { alphabet, body } = parseAlphabetKey(key);
+  if (!body.startsWith("SHIFT-")) {
+    throw new Error("Invalid Caesar key format: must be SHIFT-N where N is a number");
+  }
+  const shift = parseInt(body.replace("SHIFT-", ""));
+  if (isNaN(shift)) {
+    throw new Error("Invalid Caesar key: shift value must be a number");
+  }
+  return { shift, alphabet };
+}
+
+export const caesarDescriptor: CipherDescriptor = {
+  id: "caesar",
+  name: "Caesar Cipher",
+  icon: "🏛️",
+  color: "from-red-500 to-rose-500",
+  inputAlphabet: "Letters of the key's alphabet (Latin by default; other characters pass through)",
+  outputAlphabet: "Same as input (byte-range keys: base64)",
+  describeKey: (mode) => {
+    const caesarRange = mode === "high" ? "1-25" : mode === "balanced" ? "1-20" : "1-13";
+    return `Random shift value (${caesarRange} for Latin; other alphabets scale with their size)`;
+  },
+  generateKey: (mode, source) => caesar.formatKey(caesar.generateKey(mode, source)),
+  validateKey: (key) => {
+    parseCaesarKey(key);
+  },
+  // size - 1 useful shifts, whatever the key; letters only see the shift mod the alphabet size
+  analyzeKey: (key) => {
+    const { alphabet, shift: rawShift } = parseCaesarKey(key);
+    const size = alphabet.size;
+    const shift = ((rawShift % size) + size) % size;
+    const warnings = [`Only ${size - 1} possible shifts: trying them all takes a moment`];
+    if (shift === 0) warnings.push(`Shift is a multiple of ${size}, so letters come out unchanged`);
+    if (alphabet.id === "latin" && shift === 13) warnings.push("ROT13: the best-known shift, and it undoes itself");
+    return { entropyBits: Math.log2(size - 1), warnings };
+  },
+  encrypt: (plaintext, key, { timer }) => {
+    const { shift, alphabet } = parseCaesarKey(key);
+    return caesar.encrypt(plaintext, shift, alphabet, timer);
+  },
+  decrypt: (ciphertext, key, { timer }) => {
+    const { shift, alphabet } = parseCaesarKey(key);
+    return caesar.decrypt(ciphertext, shift, alphabet, timer);
+  },
+  encryptBytes: (data, key) => caesar.encryptBytes(data, parseCaesarKey(key).shift),
+  decryptBytes: (data, key) => caesar.decryptBytes(data, parseCaesarKey(key).shift),
+};
@@ -0,0 +1,26 @@
+import { ChaChaCipher } from "../chacha";
+import { CipherDescriptor } from "../registry";
+import { analyzeSecretKey } from "../entropy";
+
+const chacha = new ChaChaCipher();
+
+export const chachaDescriptor: CipherDescriptor = {
+  id: "chacha20",
+  name: "ChaCha20-Poly1305",
+  icon: "💃",
+  color: "from-fuchsia-500 to-rose-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "c20p:/xc20p: prefix and base64",
+  describeKey: (mode) =>
+    mode === "lightweight"
+      ? "128-bit random hexadecimal key (HKDF-expanded to 256 bits), ChaCha20-Poly1305 with a 96-bit nonce"
+      : "256-bit random hexadecimal key, XChaCha20-Poly1305 with a random 192-bit nonce",
+  generateKey: (mode, source) => chacha.generateKey(mode, source),
+  validateKey: (key) => chacha.validateKey(key),
+  analyzeKey: (key) => analyzeSecretKey(key),
+  encrypt: (plaintext, key, { mode, associatedData, timer }) => chacha.encrypt(plaintext, key, mode, associatedData, timer),
+  decrypt: (ciphertext, key, { associatedData, timer }) => chacha.decrypt(ciphertext, key, associatedData, timer),
+  encryptBytes: (data, key, { mode, associatedData, timer }) =>
+    chacha.encryptBytes(data, key, mode, associatedData, timer),
+  decryptBytes: (data, key, { associatedData, timer }) => chacha.decryptBytes(data, key, associatedData, timer),
+};
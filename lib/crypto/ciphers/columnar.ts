@@ -0,0 +1,38 @@
+import { ColumnarCipher } from "../columnar";
+import { CipherDescriptor } from "../registry";
+
+const columnar = new ColumnarCipher();
+
+// Anagramming the columns recovers short keywords by hand
+const SHORT_KEY_COLUMNS = 8;
+
+export const columnarDescriptor: CipherDescriptor = {
+  id: "columnar",
+  name: "Columnar Transposition",
+  icon: "🏛",
+  color: "from-stone-500 to-zinc-600",
+  inputAlphabet: "Any text or bytes (characters are reordered, not changed)",
+  outputAlphabet: "Same as input",
+  describeKey: (mode) =>
+    `${columnar.getKeyLength(mode)}-letter random keyword; columns are read off in the keyword's alphabetical order`,
+  generateKey: (mode, source) => columnar.generateKey(mode, source),
+  validateKey: (key) => columnar.validateKey(key),
+  // The keyword only matters through the column order it sets: at most n! orders for n columns
+  analyzeKey: (key) => {
+    const order = columnar.columnOrder(key);
+    if (order.every((column, i) => column === i)) {
+      return { entropyBits: 0, warnings: ["Columns are read in their written order, so the output equals the input"] };
+    }
+    const warnings = ["Transposition only: letter frequencies are untouched"];
+    if (key.length < SHORT_KEY_COLUMNS) {
+      warnings.push(`Short keyword (${key.length} columns): anagramming the columns recovers it by hand`);
+    }
+    let entropyBits = 0;
+    for (let i = 2; i <= key.length; i++) entropyBits += Math.log2(i);
+    return { entropyBits, warnings };
+  },
+  encrypt: (plaintext, key) => columnar.encrypt(plaintext, key),
+  decrypt: (ciphertext, key) => columnar.decrypt(ciphertext, key),
+  encryptBytes: (data, key) => columnar.encryptBytes(data, key),
+  decryptBytes: (data, key) => columnar.decryptBytes(data, key),
+};
@@ -0,0 +1,29 @@
+import { Ed25519Cipher } from "../ed25519";
+import { parseCurveKeyPair } from "../curve25519";
+import { CipherDescriptor } from "../registry";
+
+const ed25519 = new Ed25519Cipher();
+
+export const ed25519Descriptor: CipherDescriptor = {
+  id: "ed25519",
+  name: "Ed25519 (Sign & Attach)",
+  icon: "✍️",
+  color: "from-teal-500 to-emerald-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "ed25519: prefix, base64 signature and base64 data",
+  describeKey: () => "Ed25519 key pair; signs the layer input and verifies it on decryption (authenticity, not secrecy)",
+  generateKey: async (_mode, source) => JSON.stringify(await ed25519.generateKeyPair(source)),
+  validateKey: (key) => {
+    parseCurveKeyPair("Ed25519", key);
+  },
+  // Curve25519 offers about 128 bits of security whatever the key
+  analyzeKey: () => ({ entropyBits: 128, warnings: [] }),
+  encrypt: (plaintext, key, { associatedData, timer }) =>
+    ed25519.encrypt(plaintext, parseCurveKeyPair("Ed25519", key).privateKey, associatedData, timer),
+  decrypt: (ciphertext, key, { associatedData, timer }) =>
+    ed25519.decrypt(ciphertext, parseCurveKeyPair("Ed25519", key).publicKey, associatedData, timer),
+  encryptBytes: (data, key, { associatedData }) =>
+    ed25519.encryptBytes(data, parseCurveKeyPair("Ed25519", key).privateKey, associatedData),
+  decryptBytes: (data, key, { associatedData }) =>
+    ed25519.decryptBytes(data, parseCurveKeyPair("Ed25519", key).publicKey, associatedData),
+};
@@ -0,0 +1,31 @@
+import { EnigmaCipher } from "../enigma";
+import { CipherDescriptor } from "../registry";
+
+const enigma = new EnigmaCipher();
+
+export const enigmaDescriptor: CipherDescriptor = {
+  id: "enigma",
+  name: "Enigma I",
+  icon: "🎛️",
+  color: "from-slate-600 to-gray-800",
+  inputAlphabet: "A-Z / a-z (other characters pass through)",
+  outputAlphabet: "Same as input",
+  describeKey: (mode) =>
+    `Random rotor order from I-V, reflector B or C, ring settings, start positions and ${enigma.getPlugCount(mode)} plugboard cables`,
+  generateKey: (mode, source) => enigma.keyToString(enigma.generateKey(mode, source)),
+  validateKey: (key) => {
+    enigma.stringToKey(key);
+  },
+  analyzeKey: (key) => {
+    const plugs = enigma.countPlugs(enigma.stringToKey(key));
+    const warnings = ["No letter ever enciphers to itself, and known plaintext breaks it: the Bombe did so in the 1940s"];
+    if (plugs === 0) {
+      warnings.push("No plugboard cables: the rotor settings alone can be searched exhaustively");
+    }
+    return { entropyBits: enigma.keySpaceBits(plugs), warnings };
+  },
+  encrypt: (plaintext, key, { timer }) => enigma.encrypt(plaintext, enigma.stringToKey(key), timer),
+  decrypt: (ciphertext, key, { timer }) => enigma.decrypt(ciphertext, enigma.stringToKey(key), timer),
+  encryptBytes: (data, key) => enigma.encryptBytes(data, enigma.stringToKey(key)),
+  decryptBytes: (data, key) => enigma.decryptBytes(data, enigma.stringToKey(key)),
+};
@@ -0,0 +1,57 @@
+import { HillCipher, HillKey } from "../hill";
+import { CipherDescriptor } from "../registry";
+
+const hill = new HillCipher();
+
+// A bare JSON matrix is a legacy hex-mode key; newer keys are {"mode": ..., "matrix": ...}
+export function parseHillKey(key: string): HillKey {
+  let parsed: HillKey;
+  try {
+    parsed = hill.stringToKey(key);
+  } catch {
+    throw new Error('Invalid Hill key format: must be JSON such as {"mode":"binary","matrix":[[3,3],[2,5]]}');
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new Error('Invalid Hill key format: must be JSON such as {"mode":"binary","matrix":[[3,3],[2,5]]}');
+  }
+  hill.validateKey(parsed);
+  return parsed;
+}
+
+export const hillDescriptor: CipherDescriptor = {
+  id: "hill",
+  name: "Hill Cipher",
+  icon: "📊",
+  color: "from-green-500 to-emerald-500",
+  inputAlphabet: "Any text or bytes (binary mode); letters A-Z (classic mode)",
+  outputAlphabet: "hill256: prefix and base64 (binary mode); A-Z (classic mode)",
+  describeKey: (mode) => {
+    const size = hill.getMatrixSize(mode);
+    return `${size}×${size} random matrix invertible mod 256, applied to bytes (classic A-Z keys use mod 26)`;
+  },
+  generateKey: (mode, source) => hill.keyToString(hill.generateKey(hill.getMatrixSize(mode), source)),
+  validateKey: (key) => {
+    parseHillKey(key);
+  },
+  analyzeKey: (key) => {
+    const { mode, matrix } = parseHillKey(key);
+    const size = matrix.length;
+    const modulus = hill.getModulus(mode);
+    const reduced = matrix.map((row) => row.map((value) => ((value % modulus) + modulus) % modulus));
+    const diagonal = reduced.every((row, i) => row.every((value, j) => i === j || value === 0));
+    const warnings: string[] = [];
+    if (diagonal && reduced.every((row, i) => row[i] === 1)) {
+      return { entropyBits: 0, warnings: ["Identity matrix: the output equals the input"] };
+    }
+    if (diagonal) {
+      warnings.push("Diagonal matrix: each position is enciphered on its own, with no mixing between them");
+    }
+    // Linear in every mode: n blocks of matching plaintext and ciphertext solve for the matrix
+    warnings.push(`${size * size} ${mode === "binary" ? "bytes" : "letters"} of known plaintext recover the key`);
+    return { entropyBits: hill.keySpaceBits(size, mode), warnings };
+  },
+  encrypt: (plaintext, key, { timer }) => hill.encrypt(plaintext, parseHillKey(key), timer),
+  decrypt: (ciphertext, key, { timer }) => hill.decrypt(ciphertext, parseHillKey(key), timer),
+  encryptBytes: (data, key) => hill.encryptBytes(data, parseHillKey(key)),
+  decryptBytes: (data, key) => hill.decryptBytes(data, parseHillKey(key)),
+};
@@ -0,0 +1,38 @@
+import { CipherRegistry } from "../registry";
+import { aesDescriptor } from "./aes";
+import { rsaDescriptor } from "./rsa";
+import { hillDescriptor } from "./hill";
+import { vigenereDescriptor } from "./vigenere";
+import { blowfishDescriptor } from "./blowfish";
+import { caesarDescriptor } from "./caesar";
+import { x25519Descriptor } from "./x25519";
+import { ed25519Descriptor } from "./ed25519";
+import { chachaDescriptor } from "./chacha";
+import { playfairDescriptor } from "./playfair";
+import { affineDescriptor } from "./affine";
+import { railFenceDescriptor } from "./rail-fence";
+import { columnarDescriptor } from "./columnar";
+import { enigmaDescriptor } from "./enigma";
+import { beaufortDescriptor } from "./beaufort";
+import { autokeyDescriptor } from "./autokey";
+
+// Built-in ciphers. A new algorithm is one descriptor module added to this list
+// (plus its id in the CipherAlgorithm union); the manager and UI read everything else from here.
+export const cipherRegistry = new CipherRegistry([
+  aesDescriptor,
+  rsaDescriptor,
+  hillDescriptor,
+  vigenereDescriptor,
+  blowfishDescriptor,
+  caesarDescriptor,
+  x25519Descriptor,
+  ed25519Descriptor,
+  chachaDescriptor,
+  playfairDescriptor,
+  affineDescriptor,
+  railFenceDescriptor,
+  columnarDescriptor,
+  enigmaDescriptor,
+  beaufortDescriptor,
+  autokeyDescriptor,
+]);
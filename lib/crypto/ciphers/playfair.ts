@@ -0,0 +1,47 @@
+import { PlayfairCipher, PlayfairKey } from "../playfair";
+import { CipherDescriptor } from "../registry";
+import { estimateTypedKeyBits } from "../entropy";
+
+const playfair = new PlayfairCipher();
+
+function parsePlayfairKey(key: string): PlayfairKey {
+  const parsed = playfair.stringToKey(key);
+  playfair.validateKey(parsed);
+  return parsed;
+}
+
+function log2Factorial(n: number): number {
+  let bits = 0;
+  for (let i = 2; i <= n; i++) bits += Math.log2(i);
+  return bits;
+}
+
+export const playfairDescriptor: CipherDescriptor = {
+  id: "playfair",
+  name: "Playfair Cipher",
+  icon: "🔲",
+  color: "from-teal-500 to-cyan-600",
+  inputAlphabet: "Any text or bytes; pairs of A-Z, a-z, 0-9, +, / change (classic: letters A-Z only)",
+  outputAlphabet: "Same as input (classic: A-Z)",
+  describeKey: () => "Random 8×8 square of the base64 alphabet (classic: keys start with classic: and use a 5×5 A-Z square)",
+  generateKey: (_mode, source) => playfair.keyToString(playfair.generateKey("base64", source)),
+  validateKey: (key) => {
+    parsePlayfairKey(key);
+  },
+  // A square is one of n! arrangements; a typed keyword fixes far fewer of them
+  analyzeKey: (key) => {
+    const parsed = parsePlayfairKey(key);
+    const squareBits = log2Factorial(parsed.mode === "classic" ? 25 : 64);
+    const warnings = ["Digraph frequencies survive: hill-climbing attacks break it from a few hundred letters"];
+    const keyword = [...new Set(parsed.keyword)];
+    if (keyword.length < playfair.square(parsed).length - 1) {
+      warnings.push("Keyword square, not a random one: it is only as strong as the keyword chosen");
+      return { entropyBits: Math.min(squareBits, estimateTypedKeyBits(keyword.join(""))), warnings };
+    }
+    return { entropyBits: squareBits, warnings };
+  },
+  encrypt: (plaintext, key, { timer }) => playfair.encrypt(plaintext, parsePlayfairKey(key), timer),
+  decrypt: (ciphertext, key, { timer }) => playfair.decrypt(ciphertext, parsePlayfairKey(key), timer),
+  encryptBytes: (data, key) => playfair.encryptBytes(data, parsePlayfairKey(key)),
+  decryptBytes: (data, key) => playfair.decryptBytes(data, parsePlayfairKey(key)),
+};
@@ -0,0 +1,33 @@
+import { RailFenceCipher } from "../rail-fence";
+import { CipherDescriptor } from "../registry";
+
+const railFence = new RailFenceCipher();
+
+export const railFenceDescriptor: CipherDescriptor = {
+  id: "railfence",
+  name: "Rail Fence Cipher",
+  icon: "🚧",
+  color: "from-yellow-500 to-orange-500",
+  inputAlphabet: "Any text or bytes (characters are reordered, not changed)",
+  outputAlphabet: "Same as input",
+  describeKey: (mode) => {
+    const { min, max } = railFence.getRailRange(mode);
+    return `Random number of rails (${min}-${max}); the text is written in a zigzag and read off rail by rail`;
+  },
+  generateKey: (mode, source) => railFence.formatKey(railFence.generateKey(mode, source)),
+  validateKey: (key) => {
+    railFence.parseKey(key);
+  },
+  // An attacker simply tries every rail count up to this one
+  analyzeKey: (key) => {
+    const rails = railFence.parseKey(key);
+    return {
+      entropyBits: Math.log2(rails - 1),
+      warnings: ["Transposition only: letter frequencies are untouched and every rail count can be tried by hand"],
+    };
+  },
+  encrypt: (plaintext, key) => railFence.encrypt(plaintext, railFence.parseKey(key)),
+  decrypt: (ciphertext, key) => railFence.decrypt(ciphertext, railFence.parseKey(key)),
+  encryptBytes: (data, key) => railFence.encryptBytes(data, railFence.parseKey(key)),
+  decryptBytes: (data, key) => railFence.decryptBytes(data, railFence.parseKey(key)),
+};
@@ -0,0 +1,63 @@
+import forge from "node-forge";
+import { RSACipher } from "../rsa";
+import { CipherDescriptor } from "../registry";
+import { importRsaKey, RsaKeyPair } from "../rsa-keys";
+
+const rsa = new RSACipher();
+
+// RSA layer keys are JSON holding the PEM halves, but any format importRsaKey reads is accepted.
+// Encrypting and verifying only need the public half.
+export function parseRsaKey(key: string, purpose: "encrypt"): RsaKeyPair;
+export function parseRsaKey(key: string, purpose: "decrypt"): Required<RsaKeyPair>;
+export function parseRsaKey(key: string, purpose: "encrypt" | "decrypt"): RsaKeyPair {
+  if (!key || key.trim() === "") {
+    throw new Error("RSA key is missing. Please regenerate keys.");
+  }
+  const keyPair = importRsaKey(key);
+  if (purpose === "decrypt" && !keyPair.privateKey) {
+    throw new Error("This RSA key only has a public key: it can encrypt and verify, but not decrypt or sign.");
+  }
+  return keyPair;
+}
+
+// Symmetric-equivalent strength of an RSA modulus (NIST SP 800-57 Part 1, table 2)
+function rsaSecurityBits(modulusBits: number): number {
+  if (modulusBits >= 15360) return 256;
+  if (modulusBits >= 7680) return 192;
+  if (modulusBits >= 3072) return 128;
+  if (modulusBits >= 2048) return 112;
+  return 80;
+}
+
+export const rsaDescriptor: CipherDescriptor = {
+  id: "rsa",
+  name: "RSA (Rivest-Shamir-Adleman)",
+  icon: "🔑",
+  color: "from-purple-500 to-pink-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "hyb1: prefix and base64",
+  describeKey: (mode) => {
+    const rsaSize = mode === "high" ? 4096 : mode === "balanced" ? 2048 : 1024;
+    return `${rsaSize}-bit public/private key pair (or an imported PEM, JWK or OpenSSH key); OAEP wraps a random AES-256-GCM content key`;
+  },
+  generateKey: async (mode, source) => JSON.stringify(await rsa.generateKeyPair(mode, source)),
+  validateKey: (key) => {
+    parseRsaKey(key, "encrypt");
+  },
+  analyzeKey: (key) => {
+    const publicKey = forge.pki.publicKeyFromPem(parseRsaKey(key, "encrypt").publicKey) as forge.pki.rsa.PublicKey;
+    const modulusBits = publicKey.n.bitLength();
+    return {
+      entropyBits: rsaSecurityBits(modulusBits),
+      warnings: modulusBits < 2048 ? [`${modulusBits}-bit RSA is below the 2048-bit minimum NIST has required since 2013`] : [],
+    };
+  },
+  encrypt: (plaintext, key, { associatedData, timer }) =>
+    rsa.encrypt(plaintext, parseRsaKey(key, "encrypt").publicKey, associatedData, timer),
+  decrypt: (ciphertext, key, { associatedData, timer }) =>
+    rsa.decrypt(ciphertext, parseRsaKey(key, "decrypt").privateKey, associatedData, timer),
+  encryptBytes: (data, key, { associatedData, timer }) =>
+    rsa.encryptBytes(data, parseRsaKey(key, "encrypt").publicKey, associatedData, timer),
+  decryptBytes: (data, key, { associatedData, timer }) =>
+    rsa.decryptBytes(data, parseRsaKey(key, "decrypt").privateKey, associatedData, timer),
+};
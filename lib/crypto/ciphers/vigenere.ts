@@ -0,0 +1,63 @@
+import { VigenereCipher, VigenereVariant } from "../vigenere";
+import { CipherDescriptor } from "../registry";
+import { repeatingPeriod } from "../entropy";
+import { parseAlphabetKey } from "../alphabet";
+
+// Kasiski examination recovers shorter keys from a few hundred letters of ciphertext
+const SHORT_KEY_LETTERS = 12;
+
+type DescriptorBadge = Pick<CipherDescriptor, "id" | "name" | "icon" | "color">;
+
+// Vigenère, Beaufort and Autokey share keys, alphabets and byte handling; they differ in how the
+// key combines with the text and in how a repeating key can be attacked
+export function createVigenereDescriptor(variant: VigenereVariant, badge: DescriptorBadge): CipherDescriptor {
+  const cipher = new VigenereCipher(variant);
+  return {
+    ...badge,
+    inputAlphabet: "Letters of the key's alphabet (Latin by default; other characters pass through)",
+    outputAlphabet: "Same as input (byte-range keys: base64)",
+    describeKey: (mode) => `${cipher.getKeyLength(mode)}-character random uppercase alphabetic key`,
+    generateKey: (mode, source) => cipher.generateKey(cipher.getKeyLength(mode), source),
+    validateKey: (key) => {
+      cipher.parseKey(key);
+    },
+    analyzeKey: (key) => {
+      const { alphabet, shifts } = cipher.parseKey(key);
+      const period = repeatingPeriod(shifts);
+      const warnings: string[] = [];
+      if (period === 1) {
+        warnings.push(
+          variant === "autokey"
+            ? "One-letter keyword: each letter is shifted by the one before it"
+            : "Every letter is the same, so this is just a Caesar shift"
+        );
+      } else if (period < shifts.length) {
+        warnings.push(`Key repeats a ${period}-letter pattern, so it is no stronger than ${period} letters`);
+      }
+      // Autokey never repeats its key, but the plaintext it continues with is just as guessable
+      if (variant === "autokey") {
+        warnings.push("The key continues with the plaintext: a guessed word decrypts the text that follows it");
+      } else if (period > 1 && period < SHORT_KEY_LETTERS) {
+        warnings.push(`Short key (${period} letters): Kasiski examination recovers it from a few hundred letters of ciphertext`);
+      }
+      // Generated keys are uppercase; lowercase letters mean a typed word, rated at about 2 bits a letter like English text
+      const { body } = parseAlphabetKey(key);
+      const typed = body !== body.toUpperCase() && alphabet.id !== "ascii" && alphabet.id !== "bytes";
+      if (typed) {
+        warnings.push("Typed key, not a generated one: words are far easier to guess than random letters");
+      }
+      return { entropyBits: period * (typed ? 2 : Math.log2(alphabet.size)), warnings };
+    },
+    encrypt: (plaintext, key, { timer }) => cipher.encrypt(plaintext, key, timer),
+    decrypt: (ciphertext, key, { timer }) => cipher.decrypt(ciphertext, key, timer),
+    encryptBytes: (data, key) => cipher.encryptBytes(data, key),
+    decryptBytes: (data, key) => cipher.decryptBytes(data, key),
+  };
+}
+
+export const vigenereDescriptor = createVigenereDescriptor("vigenere", {
+  id: "vigenere",
+  name: "Vigenère Cipher",
+  icon: "📝",
+  color: "from-orange-500 to-amber-500",
+});
@@ -0,0 +1,29 @@
+import { X25519Cipher } from "../x25519";
+import { parseCurveKeyPair } from "../curve25519";
+import { CipherDescriptor } from "../registry";
+
+const x25519 = new X25519Cipher();
+
+export const x25519Descriptor: CipherDescriptor = {
+  id: "x25519",
+  name: "X25519 (Elliptic-Curve Diffie-Hellman)",
+  icon: "🌀",
+  color: "from-sky-500 to-indigo-500",
+  inputAlphabet: "Any UTF-8 text or bytes",
+  outputAlphabet: "x25519: prefix and base64",
+  describeKey: () => "Curve25519 key pair; each message uses an ephemeral ECDH key and HKDF into AES-256-GCM",
+  generateKey: async (_mode, source) => JSON.stringify(await x25519.generateKeyPair(source)),
+  validateKey: (key) => {
+    parseCurveKeyPair("X25519", key);
+  },
+  // Curve25519 offers about 128 bits of security whatever the key
+  analyzeKey: () => ({ entropyBits: 128, warnings: [] }),
+  encrypt: (plaintext, key, { associatedData, timer }) =>
+    x25519.encrypt(plaintext, parseCurveKeyPair("X25519", key).publicKey, associatedData, timer),
+  decrypt: (ciphertext, key, { associatedData, timer }) =>
+    x25519.decrypt(ciphertext, parseCurveKeyPair("X25519", key).privateKey, associatedData, timer),
+  encryptBytes: (data, key, { associatedData, timer }) =>
+    x25519.encryptBytes(data, parseCurveKeyPair("X25519", key).publicKey, associatedData, timer),
+  decryptBytes: (data, key, { associatedData, timer }) =>
+    x25519.decryptBytes(data, parseCurveKeyPair("X25519", key).privateKey, associatedData, timer),
+};
@@ -0,0 +1,70 @@
+import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom } from "./random";
+import { transposeText, transposeBytes } from "./transposition";
+
+// Writes the input in rows under the keyword and reads the columns off in the keyword's alphabetical
+// order (ties left to right). Columns are not padded, so the output is exactly as long as the input.
+export class ColumnarCipher {
+  getKeyLength(mode: SecurityMode): number {
+    switch (mode) {
+      case "high":
+        return 12;
+      case "balanced":
+        return 8;
+      case "lightweight":
+        return 5;
+    }
+  }
+
+  generateKey(mode: SecurityMode, source: RandomSource = secureRandom): string {
+    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+    let key = "";
+    for (let i = 0; i < this.getKeyLength(mode); i++) {
+      key += chars.charAt(randomInt(chars.length, source));
+    }
+    return key;
+  }
+
+  validateKey(key: string): void {
+    if (!/^[A-Za-z]+$/.test(key)) {
+      throw new Error("Invalid Columnar key: must contain letters A-Z only");
+    }
+  }
+
+  // The order in which the columns are read
+  columnOrder(key: string): number[] {
+    const normalized = key.toUpperCase();
+    return Array.from(normalized, (_, i) => i).sort((a, b) => normalized.charCodeAt(a) - normalized.charCodeAt(b) || a - b);
+  }
+
+  private order(length: number, key: string): number[] {
+    const width = key.length;
+    const order: number[] = [];
+    for (const column of this.columnOrder(key)) {
+      for (let i = column; i < length; i += width) {
+        order.push(i);
+      }
+    }
+    return order;
+  }
+
+  encrypt(plaintext: string, key: string): string {
+    this.validateKey(key);
+    return transposeText(plaintext, (length) => this.order(length, key), false);
+  }
+
+  decrypt(ciphertext: string, key: string): string {
+    this.validateKey(key);
+    return transposeText(ciphertext, (length) => this.order(length, key), true);
+  }
+
+  encryptBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    return transposeBytes(data, (length) => this.order(length, key), false);
+  }
+
+  decryptBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    return transposeBytes(data, (length) => this.order(length, key), true);
+  }
+}
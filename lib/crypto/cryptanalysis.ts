@@ -0,0 +1,262 @@
+import { CaesarCipher } from "./caesar";
+import { VigenereCipher } from "./vigenere";
+import { HillCipher, HillKey } from "./hill";
+import { utf8Encode, base64ToBytes } from "./encoding";
+import { repeatingPeriod } from "./entropy";
+import {
+  ENGLISH_IC,
+  RANDOM_IC,
+  lettersOnly,
+  letterCounts,
+  indexOfCoincidence,
+  englishLogLikelihood,
+} from "./frequency";
+
+// Attacks on the classical layers, run against CaesarCipher, VigenereCipher and HillCipher output
+
+const caesar = new CaesarCipher();
+const vigenere = new VigenereCipher();
+const hill = new HillCipher();
+
+export interface CaesarCandidate {
+  shift: number;
+  key: string;
+  plaintext: string;
+  // Log-likelihood under English letter frequencies; higher is more likely
+  score: number;
+}
+
+export interface KeyLengthCandidate {
+  length: number;
+  // Mean index of coincidence of the ciphertext split into `length` columns
+  columnIc: number;
+  // Repeated-trigram distances that `length` divides
+  kasiskiVotes: number;
+}
+
+export interface VigenereRecovery {
+  key: string;
+  plaintext: string;
+  friedmanEstimate: number;
+  candidates: KeyLengthCandidate[];
+}
+
+export interface HillRecovery {
+  key: HillKey;
+  keyString: string;
+  // Null when the ciphertext does not decrypt as a whole (e.g. the crib was not at its start)
+  plaintext: string | null;
+  blocksUsed: number[];
+}
+
+const MAX_KEY_LENGTH = 20;
+const KASISKI_SEQUENCE = 3;
+// Nats of log-likelihood each key letter must earn, half of log(26): tuned on English text, where it
+// picks the right multiple of the key length for 400 letters and more
+const COLUMN_PENALTY = Math.log(26) / 2;
+// Known-plaintext blocks searched for an invertible set; C(16, 5) = 4368 combinations at most
+const MAX_HILL_BLOCKS = 16;
+const HILL_BINARY_PREFIX = "hill256:";
+
+// All 25 shifts, most English-like first
+export function bruteForceCaesar(ciphertext: string): CaesarCandidate[] {
+  const candidates: CaesarCandidate[] = [];
+  for (let shift = 1; shift < 26; shift++) {
+    const plaintext = caesar.decrypt(ciphertext, shift);
+    candidates.push({
+      shift,
+      key: caesar.formatKey(shift),
+      plaintext,
+      score: englishLogLikelihood(letterCounts(lettersOnly(plaintext))),
+    });
+  }
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+// Distances between repeats of every trigram; the key length divides most of them
+export function kasiskiDistances(letters: string): number[] {
+  const lastSeen = new Map<string, number>();
+  const distances: number[] = [];
+  for (let i = 0; i + KASISKI_SEQUENCE <= letters.length; i++) {
+    const sequence = letters.substring(i, i + KASISKI_SEQUENCE);
+    const previous = lastSeen.get(sequence);
+    if (previous !== undefined) {
+      distances.push(i - previous);
+    }
+    lastSeen.set(sequence, i);
+  }
+  return distances;
+}
+
+// Friedman test: key length from how far the ciphertext IC has fallen from English towards random
+export function friedmanKeyLength(letters: string): number {
+  const n = letters.length;
+  const ic = indexOfCoincidence(letterCounts(letters));
+  const denominator = (n - 1) * ic - RANDOM_IC * n + ENGLISH_IC;
+  if (n < 2 || denominator <= 0) return 1;
+  return ((ENGLISH_IC - RANDOM_IC) * n) / denominator;
+}
+
+function columns(letters: string, length: number): string[] {
+  const result = new Array<string>(length).fill("");
+  for (let i = 0; i < letters.length; i++) {
+    result[i % length] += letters[i];
+  }
+  return result;
+}
+
+// The Caesar shift that makes a column read most like English, with its log-likelihood
+function bestShift(column: string): { shift: number; score: number } {
+  const counts = letterCounts(column);
+  let best = { shift: 0, score: -Infinity };
+  for (let shift = 0; shift < 26; shift++) {
+    const score = englishLogLikelihood(counts.map((_, i) => counts[(i + shift) % 26]));
+    if (score > best.score) {
+      best = { shift, score };
+    }
+  }
+  return best;
+}
+
+// Each column is a Caesar cipher; its shift is the key letter
+export function recoverVigenereKey(ciphertext: string, keyLength: number): string {
+  const letters = lettersOnly(ciphertext);
+  return columns(letters, keyLength)
+    .map((column) => String.fromCharCode(65 + bestShift(column).shift))
+    .join("");
+}
+
+// How well the best key of this length fits English, less a charge per key letter: every column
+// picks the best of 26 shifts, so extra columns gain a little likelihood even from noise alone
+function penalizedFit(letters: string, keyLength: number): number {
+  const fit = columns(letters, keyLength).reduce((sum, column) => sum + bestShift(column).score, 0);
+  return fit - keyLength * COLUMN_PENALTY;
+}
+
+// The shortest length whose column IC gets most of the way from random to the best seen is taken:
+// multiples of the key length score as well, and longer lengths overfit short ciphertexts. A key whose
+// halves share letters (KEYKEX) also lifts the IC at half its length, so its multiples compete on
+// penalizedFit. Below about 200 letters the length can still come out wrong, and columns of fewer than
+// about 20 letters may each get a key letter wrong.
+export function breakVigenere(ciphertext: string, maxKeyLength: number = MAX_KEY_LENGTH): VigenereRecovery {
+  const letters = lettersOnly(ciphertext);
+  if (letters.length < 2 * KASISKI_SEQUENCE) {
+    throw new Error("Vigenère analysis needs more ciphertext letters");
+  }
+  const distances = kasiskiDistances(letters);
+  const longest = Math.max(1, Math.min(maxKeyLength, Math.floor(letters.length / 2)));
+
+  const candidates: KeyLengthCandidate[] = [];
+  for (let length = 1; length <= longest; length++) {
+    const parts = columns(letters, length);
+    const columnIc = parts.reduce((sum, column) => sum + indexOfCoincidence(letterCounts(column)), 0) / length;
+    const kasiskiVotes = distances.filter((distance) => distance % length === 0).length;
+    candidates.push({ length, columnIc, kasiskiVotes });
+  }
+
+  const bestIc = Math.max(...candidates.map((candidate) => candidate.columnIc));
+  const threshold = RANDOM_IC + 0.6 * (bestIc - RANDOM_IC);
+  const start = candidates.find((candidate) => candidate.columnIc >= threshold)!;
+
+  let keyLength = start.length;
+  let bestFit = penalizedFit(letters, keyLength);
+  for (let length = start.length * 2; length <= longest; length += start.length) {
+    const fit = penalizedFit(letters, length);
+    if (fit > bestFit) {
+      keyLength = length;
+      bestFit = fit;
+    }
+  }
+  let key = recoverVigenereKey(letters, keyLength);
+  // A key recovered at a multiple of its length is the real key repeated
+  const period = repeatingPeriod(key);
+  if (key.length % period === 0) {
+    key = key.substring(0, period);
+  }
+
+  return {
+    key,
+    plaintext: vigenere.decrypt(ciphertext, key),
+    friedmanEstimate: friedmanKeyLength(letters),
+    candidates,
+  };
+}
+
+function multiplyMatrices(a: number[][], b: number[][], modulus: number): number[][] {
+  return a.map((row) =>
+    b[0].map((_, j) => (((row.reduce((sum, value, k) => sum + value * b[k][j], 0)) % modulus) + modulus) % modulus)
+  );
+}
+
+// n-element subsets of 0..count-1 in lexicographic order
+function* combinations(count: number, n: number, start: number = 0): Generator<number[]> {
+  if (n === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= count - n; i++) {
+    for (const rest of combinations(count, n - 1, i + 1)) {
+      yield [i, ...rest];
+    }
+  }
+}
+
+// Columns of P are known plaintext blocks and columns of C their ciphertext, so C = K·P and
+// K = C·P⁻¹ once some n of the blocks make P invertible
+function solveHillMatrix(plain: ArrayLike<number>, cipher: ArrayLike<number>, size: number, modulus: number) {
+  const blockCount = Math.min(Math.floor(plain.length / size), Math.floor(cipher.length / size), MAX_HILL_BLOCKS);
+  if (blockCount < size) {
+    throw new Error(`Hill recovery needs at least ${size * size} known plaintext ${modulus === 256 ? "bytes" : "letters"}`);
+  }
+  const blockMatrix = (values: ArrayLike<number>, blocks: number[]) =>
+    Array.from({ length: size }, (_, row) => blocks.map((block) => values[block * size + row]));
+
+  for (const blocks of combinations(blockCount, size)) {
+    const p = blockMatrix(plain, blocks);
+    if (!hill.isInvertible(p, modulus)) continue;
+    const matrix = multiplyMatrices(blockMatrix(cipher, blocks), hill.invertMatrix(p, modulus), modulus);
+    if (!hill.isInvertible(matrix, modulus)) continue;
+    // Every known block, not just the ones solved for, must encrypt to its ciphertext
+    const all = Array.from({ length: blockCount }, (_, i) => i);
+    const expected = blockMatrix(cipher, all);
+    const actual = multiplyMatrices(matrix, blockMatrix(plain, all), modulus);
+    if (actual.every((row, i) => row.every((value, j) => value === expected[i][j]))) {
+      return { matrix, blocksUsed: blocks };
+    }
+  }
+  throw new Error("No invertible set of known plaintext blocks reproduces the ciphertext: try a longer crib");
+}
+
+// Known-plaintext attack: `knownPlaintext` must be the start of the message behind `ciphertext`.
+// Classic mode works on A-Z letters mod 26, binary mode on the bytes of "hill256:" output.
+export function recoverHillKey(
+  knownPlaintext: string,
+  ciphertext: string,
+  size: number,
+  mode: "classic" | "binary"
+): HillRecovery {
+  let plain: ArrayLike<number>;
+  let cipher: ArrayLike<number>;
+  if (mode === "classic") {
+    plain = Uint8Array.from(lettersOnly(knownPlaintext), (c) => c.charCodeAt(0) - 65);
+    cipher = Uint8Array.from(lettersOnly(ciphertext), (c) => c.charCodeAt(0) - 65);
+  } else {
+    const encoded = ciphertext.trim();
+    plain = utf8Encode(knownPlaintext);
+    try {
+      cipher = base64ToBytes(encoded.startsWith(HILL_BINARY_PREFIX) ? encoded.substring(HILL_BINARY_PREFIX.length) : encoded);
+    } catch {
+      throw new Error("Hill recovery failed: binary ciphertext is not valid base64");
+    }
+  }
+
+  const { matrix, blocksUsed } = solveHillMatrix(plain, cipher, size, hill.getModulus(mode));
+  const key: HillKey = { mode, matrix };
+  let plaintext: string | null;
+  try {
+    plaintext = hill.decrypt(ciphertext.trim(), key);
+  } catch {
+    plaintext = null;
+  }
+  return { key, keyString: hill.keyToString(key), plaintext, blocksUsed };
+}
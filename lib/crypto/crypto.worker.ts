@@ -0,0 +1,54 @@
+import { EncryptionManager } from "./encryption-manager";
+import { cipherRegistry } from "./ciphers";
+import { PassphraseKeyDerivation } from "./passphrase";
+import { measurePipeline } from "./benchmark";
+import type { CryptoWorkerApi, WorkerMethod, WorkerRequest, WorkerResponse } from "./worker-client";
+import { PipelineProgress } from "./types";
+
+// The worker runs pipelines for the UI and the benchmark, so it skips the step-by-step log
+const manager = new EncryptionManager(cipherRegistry, false);
+const passphraseDerivation = new PassphraseKeyDerivation(manager);
+
+type Handlers = {
+  [M in WorkerMethod]: (
+    args: Parameters<CryptoWorkerApi[M]>,
+    onProgress: (progress: PipelineProgress) => void
+  ) => ReturnType<CryptoWorkerApi[M]>;
+};
+
+const handlers: Handlers = {
+  generateKey: ([algorithm, mode]) => manager.generateKey(algorithm, mode),
+  deriveKeys: (args) => passphraseDerivation.deriveKeys(...args),
+  multiLayerEncrypt: ([plaintext, algorithms, mode, existingKeys, options], onProgress) =>
+    manager.multiLayerEncrypt(plaintext, algorithms, mode, existingKeys, { ...options, onProgress }),
+  multiLayerEncryptBytes: ([data, algorithms, mode, existingKeys, options], onProgress) =>
+    manager.multiLayerEncryptBytes(data, algorithms, mode, existingKeys, { ...options, onProgress }),
+  multiLayerDecrypt: ([ciphertext, keys, legacy], onProgress) =>
+    manager.multiLayerDecrypt(ciphertext, keys, legacy, { onProgress }),
+  multiLayerDecryptBytes: ([ciphertext, keys, legacy], onProgress) =>
+    manager.multiLayerDecryptBytes(ciphertext, keys, legacy, { onProgress }),
+  benchmark: (args) => measurePipeline(manager, ...args),
+};
+
+function reply(response: WorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, method, args } = event.data;
+  const handler = handlers[method] as (
+    args: WorkerRequest["args"],
+    onProgress: (progress: PipelineProgress) => void
+  ) => Promise<unknown>;
+
+  try {
+    const result = await handler(args, (progress) => reply({ id, type: "progress", progress }));
+    reply({ id, type: "result", result });
+  } catch (error) {
+    reply({
+      id,
+      type: "error",
+      error: error instanceof Error ? { name: error.name, message: error.message } : { name: "Error", message: String(error) },
+    });
+  }
+};
@@ -0,0 +1,111 @@
+import { RandomSource } from "./random";
+import { derToPem, pemToDer, bytesToHex, hexToBytes, base64UrlToBytes, bytesToBase64Url } from "./encoding";
+
+// Key handling shared by the X25519 and Ed25519 modules. Private keys of both curves are
+// 32 random bytes, so they can come from any RandomSource and be wrapped into PKCS#8 directly.
+export type Curve = "X25519" | "Ed25519";
+
+export const CURVE_KEY_BYTES = 32;
+
+// Fixed DER prefixes (RFC 8410): the raw key is the only variable part
+const PKCS8_PREFIX: Record<Curve, string> = {
+  X25519: "302e020100300506032b656e04220420",
+  Ed25519: "302e020100300506032b657004220420",
+};
+const SPKI_PREFIX: Record<Curve, string> = {
+  X25519: "302a300506032b656e032100",
+  Ed25519: "302a300506032b6570032100",
+};
+
+// Public and private halves as PEM (SPKI / PKCS#8), the same shape RSA key pairs use
+export interface CurveKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+type KeyType = "public" | "private";
+
+function wrapDer(curve: Curve, raw: Uint8Array, type: KeyType): Uint8Array<ArrayBuffer> {
+  const prefix = hexToBytes(type === "public" ? SPKI_PREFIX[curve] : PKCS8_PREFIX[curve]);
+  const der = new Uint8Array(prefix.length + raw.length);
+  der.set(prefix);
+  der.set(raw, prefix.length);
+  return der;
+}
+
+export function rawToPem(curve: Curve, raw: Uint8Array, type: KeyType): string {
+  if (raw.length !== CURVE_KEY_BYTES) {
+    throw new Error(`${curve} ${type} key must be ${CURVE_KEY_BYTES} bytes, got ${raw.length}`);
+  }
+  return derToPem(wrapDer(curve, raw, type), type === "public" ? "PUBLIC KEY" : "PRIVATE KEY");
+}
+
+// Accepts PEM or the raw 32-byte key as hex or base64url, and returns the raw key
+export function importRawKey(curve: Curve, text: string, type: KeyType): Uint8Array<ArrayBuffer> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("-----BEGIN")) {
+    const der = pemToDer(trimmed, type === "public" ? "PUBLIC KEY" : "PRIVATE KEY");
+    const prefix = type === "public" ? SPKI_PREFIX[curve] : PKCS8_PREFIX[curve];
+    if (der.length !== prefix.length / 2 + CURVE_KEY_BYTES || !bytesToHex(der).startsWith(prefix)) {
+      throw new Error(`Not an ${curve} ${type} key`);
+    }
+    return der.slice(prefix.length / 2);
+  }
+
+  const raw = /^[0-9a-fA-F]{64}$/.test(trimmed) ? hexToBytes(trimmed) : base64UrlToBytes(trimmed);
+  if (raw.length !== CURVE_KEY_BYTES) {
+    throw new Error(`${curve} ${type} key must be PEM or ${CURVE_KEY_BYTES} raw bytes (hex or base64url)`);
+  }
+  return raw;
+}
+
+export function exportRawKey(curve: Curve, pem: string, type: KeyType): string {
+  return bytesToBase64Url(importRawKey(curve, pem, type));
+}
+
+export async function importCurveKey(
+  curve: Curve,
+  text: string,
+  type: KeyType,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const der = wrapDer(curve, importRawKey(curve, text, type), type);
+  return crypto.subtle.importKey(type === "public" ? "spki" : "pkcs8", der, { name: curve }, false, usages);
+}
+
+export async function generateCurveKeyPair(curve: Curve, source?: RandomSource): Promise<CurveKeyPair> {
+  const privateRaw = source ? source(CURVE_KEY_BYTES) : crypto.getRandomValues(new Uint8Array(CURVE_KEY_BYTES));
+  const privateKey = rawToPem(curve, privateRaw, "private");
+  return { publicKey: rawToPem(curve, await derivePublicKey(curve, privateRaw), "public"), privateKey };
+}
+
+// WebCrypto has no "public key from private key" call, but the JWK export of a private key carries it
+async function derivePublicKey(curve: Curve, privateRaw: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const usages: KeyUsage[] = curve === "X25519" ? ["deriveBits"] : ["sign"];
+  const key = await crypto.subtle.importKey("pkcs8", wrapDer(curve, privateRaw, "private"), { name: curve }, true, usages);
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+  if (!jwk.x) {
+    throw new Error(`${curve} key export did not include the public key`);
+  }
+  return base64UrlToBytes(jwk.x);
+}
+
+// Layer keys are JSON holding both halves; either half may also be given raw
+export function parseCurveKeyPair(curve: Curve, key: string): CurveKeyPair {
+  if (!key || key.trim() === "") {
+    throw new Error(`${curve} key is missing. Please regenerate keys.`);
+  }
+  let keypair: { publicKey?: string; privateKey?: string };
+  try {
+    keypair = JSON.parse(key);
+  } catch {
+    throw new Error(`Invalid ${curve} key format: must be JSON with publicKey and privateKey`);
+  }
+  if (typeof keypair.publicKey !== "string" || typeof keypair.privateKey !== "string") {
+    throw new Error(`${curve} key is incomplete: publicKey and privateKey are required`);
+  }
+  return {
+    publicKey: rawToPem(curve, importRawKey(curve, keypair.publicKey, "public"), "public"),
+    privateKey: rawToPem(curve, importRawKey(curve, keypair.privateKey, "private"), "private"),
+  };
+}
@@ -0,0 +1,112 @@
+import { AuthenticationError } from "./errors";
+import { RandomSource } from "./random";
+import { Curve, CurveKeyPair, generateCurveKeyPair, importCurveKey } from "./curve25519";
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// Text output: ED25519_PREFIX + base64(signature) + ":" + base64(data)
+const ED25519_PREFIX = "ed25519:";
+const SIGNATURE_BYTES = 64;
+const CURVE: Curve = "Ed25519";
+
+// Sign-and-attach layer: the output is the input with an Ed25519 signature in front. It proves
+// who produced the data and that it is unmodified, but does not hide it.
+export class Ed25519Cipher {
+  generateKeyPair(source?: RandomSource): Promise<CurveKeyPair> {
+    return generateCurveKeyPair(CURVE, source);
+  }
+
+  async sign(data: Uint8Array<ArrayBuffer>, privateKey: string): Promise<Uint8Array<ArrayBuffer>> {
+    const key = await importCurveKey(CURVE, privateKey, "private", ["sign"]);
+    return new Uint8Array(await crypto.subtle.sign(CURVE, key, data));
+  }
+
+  async verify(data: Uint8Array<ArrayBuffer>, signature: Uint8Array<ArrayBuffer>, publicKey: string): Promise<boolean> {
+    const key = await importCurveKey(CURVE, publicKey, "public", ["verify"]);
+    return crypto.subtle.verify(CURVE, key, signature, data);
+  }
+
+  // The associated data (the envelope header) is signed along with the data, length-prefixed
+  private signedMessage(data: Uint8Array, associatedData: string): Uint8Array<ArrayBuffer> {
+    const aad = utf8Encode(associatedData);
+    const message = new Uint8Array(4 + aad.length + data.length);
+    new DataView(message.buffer).setUint32(0, aad.length);
+    message.set(aad, 4);
+    message.set(data, 4 + aad.length);
+    return message;
+  }
+
+  // Binary layout: signature (64 bytes) || data
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    privateKey: string,
+    associatedData: string = ""
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const signature = await this.sign(this.signedMessage(data, associatedData), privateKey);
+    const output = new Uint8Array(SIGNATURE_BYTES + data.length);
+    output.set(signature);
+    output.set(data, SIGNATURE_BYTES);
+    return output;
+  }
+
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    publicKey: string,
+    associatedData: string = ""
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    if (data.length < SIGNATURE_BYTES) {
+      throw new Error("Ed25519 verification failed: signature is missing");
+    }
+    const payload = data.slice(SIGNATURE_BYTES);
+    const valid = await this.verify(this.signedMessage(payload, associatedData), data.slice(0, SIGNATURE_BYTES), publicKey);
+    if (!valid) {
+      throw new AuthenticationError(
+        "Ed25519 signature does not verify: the data was modified or signed with a different key"
+      );
+    }
+    return payload;
+  }
+
+  async encrypt(
+    plaintext: string,
+    privateKey: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<string> {
+    const data = timePhase(timer, "encoding", () => utf8Encode(plaintext));
+    const signed = await this.encryptBytes(data, privateKey, associatedData);
+    return timePhase(
+      timer,
+      "encoding",
+      () =>
+        ED25519_PREFIX +
+        bytesToBase64(signed.subarray(0, SIGNATURE_BYTES)) +
+        ":" +
+        bytesToBase64(signed.subarray(SIGNATURE_BYTES))
+    );
+  }
+
+  async decrypt(
+    ciphertext: string,
+    publicKey: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<string> {
+    const [signature, payload] = ciphertext.startsWith(ED25519_PREFIX)
+      ? ciphertext.substring(ED25519_PREFIX.length).split(":")
+      : [];
+    if (signature === undefined || payload === undefined) {
+      throw new Error("Ed25519 verification failed: not an Ed25519-signed message");
+    }
+    const signed = timePhase(timer, "encoding", () => {
+      const signatureBytes = base64ToBytes(signature);
+      const payloadBytes = base64ToBytes(payload);
+      const joined = new Uint8Array(signatureBytes.length + payloadBytes.length);
+      joined.set(signatureBytes);
+      joined.set(payloadBytes, signatureBytes.length);
+      return joined;
+    });
+    const verified = await this.decryptBytes(signed, publicKey, associatedData);
+    return timePhase(timer, "encoding", () => utf8Decode(verified));
+  }
+}
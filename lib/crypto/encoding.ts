@@ -0,0 +1,84 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function utf8Encode(text: string): Uint8Array<ArrayBuffer> {
+  return encoder.encode(text);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlToBytes(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToBytes(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+    throw new Error("Invalid hexadecimal string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// Throws unless every padding byte holds the padding length, as a real CBC decryption requires
+export function removePkcs7Padding(data: Uint8Array<ArrayBuffer>, blockBytes: number): Uint8Array<ArrayBuffer> {
+  const padding = data[data.length - 1];
+  if (
+    data.length === 0 ||
+    data.length % blockBytes !== 0 ||
+    !(padding >= 1 && padding <= blockBytes) ||
+    data.subarray(data.length - padding).some((byte) => byte !== padding)
+  ) {
+    throw new Error("bad padding");
+  }
+  return data.slice(0, data.length - padding);
+}
+
+// PEM armour: base64 DER in 64-character lines between BEGIN/END markers
+export function derToPem(der: Uint8Array, label: string): string {
+  const lines = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+export function pemToDer(pem: string, label: string): Uint8Array<ArrayBuffer> {
+  const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`));
+  if (!match) {
+    throw new Error(`Expected a PEM ${label}`);
+  }
+  return base64ToBytes(match[1].replace(/\s+/g, ""));
+}
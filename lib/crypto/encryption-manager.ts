@@ -1,9 +1,8 @@
 import { AESCipher } from "./aes";
-import { RSACipher } from "./rsa";
-import { HillCipher } from "./hill";
-import { VigenereCipher } from "./vigenere";
-import { BlowfishCipher } from "./blowfish";
-import { CaesarCipher } from "./caesar";
+import { CipherRegistry, CipherDescriptor } from "./registry";
+import { cipherRegistry } from "./ciphers";
+import { encodeEnvelopeHeader, wrapEnvelope, unwrapEnvelope } from "./envelope";
+import { RandomSource } from "./random";
 import {
   CipherAlgorithm,
   SecurityMode,
@@ -11,27 +10,44 @@ import {
   DecryptionResult,
   PerformanceMetrics,
   EncryptionLayer,
+  LayerCipherOptions,
+  PassphraseParams,
+  EnvelopeHeader,
+  FileMetadata,
+  PipelineOptions,
 } from "./types";
+import { throwIfCancelled } from "./errors";
+import { utf8Encode, bytesToBase64, base64ToBytes } from "./encoding";
+import { PhaseTimer, buildMetrics, combineMetrics, byteLength } from "./metrics";
 
 export class EncryptionManager {
+  // Only used for the envelope's KDF parameters; layers go through the registry
   private aes = new AESCipher();
-  private rsa = new RSACipher();
-  private hill = new HillCipher();
-  private vigenere = new VigenereCipher();
-  private blowfish = new BlowfishCipher();
-  private caesar = new CaesarCipher();
+
+  // `verbose` logs every pipeline step to the console; failures are logged either way
+  constructor(
+    private registry: CipherRegistry = cipherRegistry,
+    private verbose = true
+  ) {}
+
+  private log(...args: unknown[]): void {
+    if (this.verbose) console.log(...args);
+  }
+
+  // Registered ciphers, for UIs that list or describe algorithms
+  getCiphers(): CipherDescriptor[] {
+    return this.registry.list();
+  }
 
   // Get recommended algorithms based on security mode
   getRecommendedAlgorithms(mode: SecurityMode): CipherAlgorithm[] {
     switch (mode) {
       case "high":
-        // 5 layers for maximum security
-        // Note: Hill cipher removed - incompatible with binary data from RSA/AES
-        return ["aes", "rsa", "vigenere", "blowfish", "caesar"];
+        // 6 layers for maximum security; binary-mode Hill takes the AES/RSA output as bytes
+        return ["aes", "rsa", "hill", "vigenere", "blowfish", "caesar"];
       case "balanced":
-        // 3 layers for balanced performance
-        // Note: Hill cipher removed - incompatible with AES base64 output
-        return ["aes", "vigenere", "blowfish"];
+        // 4 layers for balanced performance
+        return ["aes", "hill", "vigenere", "blowfish"];
       case "lightweight":
         // 2 layers for speed
         return ["caesar", "vigenere"];
@@ -40,94 +56,47 @@ export class EncryptionManager {
     }
   }
 
-  private measurePerformance<T>(fn: () => T, dataSize: number): { result: T; metrics: PerformanceMetrics } {
+  // The cipher call gets a timer for its KDF and encoding phases; the rest of the call is cipher time
+  private async measurePerformance<T extends string | Uint8Array>(
+    fn: (timer: PhaseTimer) => T | Promise<T>,
+    dataSize: number
+  ): Promise<{ result: T; metrics: PerformanceMetrics }> {
+    const timer = new PhaseTimer();
     const startTime = performance.now();
-    const startMemory = (performance as any).memory?.usedJSHeapSize || 0;
-
-    const result = fn();
-
-    const endTime = performance.now();
-    const endMemory = (performance as any).memory?.usedJSHeapSize || 0;
-
-    const encryptionTime = Math.max(endTime - startTime, 0.001); // Minimum 0.001ms to avoid division by zero
-    const memoryUsed = Math.max(0, endMemory - startMemory);
-    const throughput = encryptionTime > 0 ? dataSize / (encryptionTime / 1000) : 0; // bytes per second
+    const result = await fn(timer);
+    const totalTime = performance.now() - startTime;
 
     return {
       result,
-      metrics: {
-        encryptionTime,
-        memoryUsed,
-        dataSize,
-        throughput,
-      },
+      metrics: buildMetrics(timer.phases(totalTime), dataSize, byteLength(result), totalTime),
     };
   }
 
-  async generateKey(algorithm: CipherAlgorithm, mode: SecurityMode = "balanced"): Promise<string> {
-    switch (algorithm) {
-      case "aes":
-        return this.aes.generateKey(mode);
-      case "rsa":
-        const keypair = await this.rsa.generateKeyPair(mode);
-        return JSON.stringify(keypair);
-      case "hill":
-        const matrix = this.hill.generateKey(2);
-        return this.hill.keyToString(matrix);
-      case "vigenere":
-        return this.vigenere.generateKey(mode === "high" ? 32 : mode === "balanced" ? 16 : 8);
-      case "blowfish":
-        return this.blowfish.generateKey(mode);
-      case "caesar":
-        const shift = this.caesar.generateKey(mode);
-        return this.caesar.formatKey(shift);
-      default:
-        throw new Error(`Unknown algorithm: ${algorithm}`);
-    }
+  // Pass a derived `source` to make key generation deterministic (passphrase mode)
+  async generateKey(
+    algorithm: CipherAlgorithm,
+    mode: SecurityMode = "balanced",
+    source?: RandomSource
+  ): Promise<string> {
+    return this.registry.get(algorithm).generateKey(mode, source);
+  }
+
+  // Throws a user-facing error when `key` is not usable by `algorithm`
+  validateKey(algorithm: CipherAlgorithm, key: string): void {
+    this.registry.get(algorithm).validateKey(key);
   }
 
   async encrypt(
     plaintext: string,
     algorithm: CipherAlgorithm,
     key: string,
-    mode: SecurityMode = "balanced"
+    mode: SecurityMode = "balanced",
+    options: LayerCipherOptions = {}
   ): Promise<EncryptionResult> {
-    const dataSize = new Blob([plaintext]).size;
-
-    const { result: encrypted, metrics } = this.measurePerformance(() => {
-      switch (algorithm) {
-        case "aes":
-          return this.aes.encrypt(plaintext, key, mode);
-        case "rsa":
-          try {
-            const keypair = JSON.parse(key);
-            if (!keypair.publicKey || !keypair.privateKey) {
-              throw new Error("Invalid RSA key format");
-            }
-            return this.rsa.encrypt(plaintext, keypair.publicKey);
-          } catch (e) {
-            throw new Error("Invalid RSA key format: must be valid JSON with publicKey and privateKey");
-          }
-        case "hill":
-          const matrix = this.hill.stringToKey(key);
-          return this.hill.encrypt(plaintext, matrix);
-        case "vigenere":
-          return this.vigenere.encrypt(plaintext, key);
-        case "blowfish":
-          return this.blowfish.encrypt(plaintext, key);
-        case "caesar":
-          if (!key.startsWith("SHIFT-")) {
-            throw new Error("Invalid Caesar key format: must be SHIFT-N where N is a number");
-          }
-          const shift = parseInt(key.replace("SHIFT-", ""));
-          if (isNaN(shift)) {
-            throw new Error("Invalid Caesar key: shift value must be a number");
-          }
-          return this.caesar.encrypt(plaintext, shift);
-        default:
-          throw new Error(`Unknown algorithm: ${algorithm}`);
-      }
-    }, dataSize);
+    const { result: encrypted, metrics } = await this.measurePerformance((timer) => {
+      const cipher = this.registry.get(algorithm);
+      return cipher.encrypt(plaintext, key, { ...options, mode, timer });
+    }, byteLength(plaintext));
 
     return {
       encrypted,
@@ -142,50 +111,55 @@ export class EncryptionManager {
     ciphertext: string,
     algorithm: CipherAlgorithm,
     key: string,
-    mode: SecurityMode = "balanced"
+    mode: SecurityMode = "balanced",
+    options: LayerCipherOptions = {}
   ): Promise<DecryptionResult> {
-    const dataSize = new Blob([ciphertext]).size;
-
-    const { result: decrypted, metrics } = this.measurePerformance(() => {
-      switch (algorithm) {
-        case "aes":
-          return this.aes.decrypt(ciphertext, key, mode);
-        case "rsa":
-          if (!key || key.trim() === "") {
-            throw new Error("RSA key is missing. Please regenerate keys.");
-          }
-          try {
-            const keypair = JSON.parse(key);
-            if (!keypair.publicKey || !keypair.privateKey) {
-              throw new Error("RSA key is incomplete. Please regenerate keys.");
-            }
-            return this.rsa.decrypt(ciphertext, keypair.privateKey);
-          } catch (e) {
-            if (e instanceof SyntaxError) {
-              throw new Error("RSA key is corrupted. Please regenerate keys.");
-            }
-            throw e;
-          }
-        case "hill":
-          const matrix = this.hill.stringToKey(key);
-          return this.hill.decrypt(ciphertext, matrix);
-        case "vigenere":
-          return this.vigenere.decrypt(ciphertext, key);
-        case "blowfish":
-          return this.blowfish.decrypt(ciphertext, key);
-        case "caesar":
-          if (!key.startsWith("SHIFT-")) {
-            throw new Error("Invalid Caesar key format: must be SHIFT-N where N is a number");
-          }
-          const shift = parseInt(key.replace("SHIFT-", ""));
-          if (isNaN(shift)) {
-            throw new Error("Invalid Caesar key: shift value must be a number");
-          }
-          return this.caesar.decrypt(ciphertext, shift);
-        default:
-          throw new Error(`Unknown algorithm: ${algorithm}`);
-      }
-    }, dataSize);
+    const { result: decrypted, metrics } = await this.measurePerformance((timer) => {
+      const cipher = this.registry.get(algorithm);
+      return cipher.decrypt(ciphertext, key, { ...options, mode, timer });
+    }, byteLength(ciphertext));
+
+    return {
+      decrypted,
+      algorithm,
+      timestamp: Date.now(),
+      performanceMetrics: metrics,
+    };
+  }
+
+  // Binary-safe counterpart of encrypt(): every layer maps bytes to bytes
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    algorithm: CipherAlgorithm,
+    key: string,
+    mode: SecurityMode = "balanced",
+    options: LayerCipherOptions = {}
+  ): Promise<EncryptionResult<Uint8Array<ArrayBuffer>>> {
+    const { result: encrypted, metrics } = await this.measurePerformance((timer) => {
+      const cipher = this.registry.get(algorithm);
+      return cipher.encryptBytes(data, key, { ...options, mode, timer });
+    }, data.length);
+
+    return {
+      encrypted,
+      key,
+      algorithm,
+      timestamp: Date.now(),
+      performanceMetrics: metrics,
+    };
+  }
+
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    algorithm: CipherAlgorithm,
+    key: string,
+    mode: SecurityMode = "balanced",
+    options: LayerCipherOptions = {}
+  ): Promise<DecryptionResult<Uint8Array<ArrayBuffer>>> {
+    const { result: decrypted, metrics } = await this.measurePerformance((timer) => {
+      const cipher = this.registry.get(algorithm);
+      return cipher.decryptBytes(data, key, { ...options, mode, timer });
+    }, data.length);
 
     return {
       decrypted,
@@ -197,40 +171,12 @@ export class EncryptionManager {
 
   // Get algorithm display name
   getAlgorithmName(algorithm: CipherAlgorithm): string {
-    const names: Record<CipherAlgorithm, string> = {
-      aes: "AES (Advanced Encryption Standard)",
-      rsa: "RSA (Rivest-Shamir-Adleman)",
-      hill: "Hill Cipher",
-      vigenere: "Vigenère Cipher",
-      blowfish: "Blowfish",
-      caesar: "Caesar Cipher",
-    };
-    return names[algorithm];
+    return this.registry.get(algorithm).name;
   }
 
   // Get key generation description
   getKeyDescription(algorithm: CipherAlgorithm, mode: SecurityMode): string {
-    switch (algorithm) {
-      case "aes":
-        const aesSize = mode === "high" ? 256 : mode === "balanced" ? 192 : 128;
-        return `${aesSize}-bit random hexadecimal key using WordArray`;
-      case "rsa":
-        const rsaSize = mode === "high" ? 4096 : mode === "balanced" ? 2048 : 1024;
-        return `${rsaSize}-bit public/private key pair using OAEP padding`;
-      case "hill":
-        return "2×2 random invertible matrix with determinant ≠ 0";
-      case "vigenere":
-        const vigLen = mode === "high" ? 32 : mode === "balanced" ? 16 : 8;
-        return `${vigLen}-character random uppercase alphabetic key`;
-      case "blowfish":
-        const bfSize = mode === "high" ? 448 : mode === "balanced" ? 256 : 128;
-        return `${bfSize}-bit random hexadecimal key`;
-      case "caesar":
-        const caesarRange = mode === "high" ? "1-25" : mode === "balanced" ? "1-20" : "1-13";
-        return `Random shift value (${caesarRange})`;
-      default:
-        return "Dynamic key generation";
-    }
+    return this.registry.get(algorithm).describeKey(mode);
   }
 
   // Multi-layer encryption for high security mode
@@ -238,90 +184,290 @@ export class EncryptionManager {
     plaintext: string,
     algorithms: CipherAlgorithm[],
     mode: SecurityMode = "high",
-    existingKeys?: Record<string, string>
-  ): Promise<{ encrypted: string; keys: Record<string, string>; metrics: PerformanceMetrics[]; layers: EncryptionLayer[] }> {
-    let encrypted = plaintext;
-    const keys: Record<string, string> = {};
+    existingKeys?: string[],
+    options: { passphrase?: PassphraseParams; sampleIntermediates?: number } & PipelineOptions = {}
+  ): Promise<{
+    encrypted: string;
+    keys: string[];
+    metrics: PerformanceMetrics[];
+    summary: PerformanceMetrics;
+    layers: EncryptionLayer[];
+    intermediates: string[];
+  }> {
+    const envelope = new PhaseTimer();
+    // The envelope header doubles as associated data, binding it to the AEAD layers
+    const encodedHeader = envelope.measure("encoding", () => encodeEnvelopeHeader({
+      layers: algorithms,
+      securityMode: mode,
+      kdf: this.aes.getKdfParams(mode),
+      encoding: "utf8",
+      passphrase: options.passphrase,
+    }));
+
+    const result = await this.encryptLayers(plaintext, algorithms, mode, existingKeys, options, (input, algorithm, key) =>
+      this.encrypt(input, algorithm, key, mode, { associatedData: encodedHeader })
+    );
+
+    // Wrap in a self-describing envelope so decryption only needs the keys
+    const encrypted = envelope.measure("encoding", () => wrapEnvelope(encodedHeader, result.encrypted));
+    this.log(`📦 Final ciphertext length: ${encrypted.length} characters\n`);
+
+    const summary = combineMetrics(result.metrics, envelope, byteLength(plaintext), byteLength(encrypted));
+    return { ...result, encrypted, summary };
+  }
+
+  // Binary input (files): layers run over raw bytes and the envelope body is base64
+  async multiLayerEncryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode = "high",
+    existingKeys?: string[],
+    options: { passphrase?: PassphraseParams; file?: FileMetadata; sampleIntermediates?: number } & PipelineOptions = {}
+  ): Promise<{
+    encrypted: string;
+    keys: string[];
+    metrics: PerformanceMetrics[];
+    summary: PerformanceMetrics;
+    layers: EncryptionLayer[];
+    intermediates: Uint8Array<ArrayBuffer>[];
+  }> {
+    const envelope = new PhaseTimer();
+    const encodedHeader = envelope.measure("encoding", () => encodeEnvelopeHeader({
+      layers: algorithms,
+      securityMode: mode,
+      kdf: this.aes.getKdfParams(mode),
+      encoding: "binary",
+      passphrase: options.passphrase,
+      file: options.file,
+    }));
+
+    const result = await this.encryptLayers(data, algorithms, mode, existingKeys, options, (input, algorithm, key) =>
+      this.encryptBytes(input, algorithm, key, mode, { associatedData: encodedHeader })
+    );
+
+    const encrypted = envelope.measure("encoding", () => wrapEnvelope(encodedHeader, bytesToBase64(result.encrypted)));
+    this.log(`📦 Final ciphertext length: ${encrypted.length} characters\n`);
+
+    const summary = combineMetrics(result.metrics, envelope, data.length, encrypted.length);
+    return { ...result, encrypted, summary };
+  }
+
+  // With `sampleIntermediates`, the first that many characters (or bytes) of every layer's output are
+  // kept, so callers can see what each layer did without holding full copies of large inputs
+  private async encryptLayers<T extends string | Uint8Array<ArrayBuffer>>(
+    input: T,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    existingKeys: string[] | undefined,
+    { onProgress, signal, sampleIntermediates }: PipelineOptions & { sampleIntermediates?: number },
+    encryptLayer: (input: T, algorithm: CipherAlgorithm, key: string) => Promise<EncryptionResult<T>>
+  ): Promise<{ encrypted: T; keys: string[]; metrics: PerformanceMetrics[]; layers: EncryptionLayer[]; intermediates: T[] }> {
+    const unit = typeof input === "string" ? "characters" : "bytes";
+    let encrypted = input;
+    const keys: string[] = [];
     const metrics: PerformanceMetrics[] = [];
     const layers: EncryptionLayer[] = [];
+    const intermediates: T[] = [];
 
-    console.log(`🔐 Starting multi-layer encryption with ${algorithms.length} layers (${mode.toUpperCase()} mode)`);
-    console.log(`📋 Algorithms (in order):`, algorithms);
-    console.log(`📝 Original plaintext length: ${plaintext.length} characters`);
-    console.log(`🔑 Using existing keys: ${existingKeys ? 'YES' : 'NO (generating new)'}\n`);
+    this.log(`🔐 Starting multi-layer encryption with ${algorithms.length} layers (${mode.toUpperCase()} mode)`);
+    this.log(`📋 Algorithms (in order):`, algorithms);
+    this.log(`📝 Original plaintext length: ${input.length} ${unit}`);
+    this.log(`🔑 Using existing keys: ${existingKeys ? 'YES' : 'NO (generating new)'}\n`);
+    onProgress?.({ operation: "encrypt", completed: 0, total: algorithms.length });
 
     for (let i = 0; i < algorithms.length; i++) {
+      throwIfCancelled(signal);
       const algorithm = algorithms[i];
-      console.log(`\n🔑 Layer ${i + 1}/${algorithms.length}: Encrypting with ${algorithm.toUpperCase()}`);
-      console.log(`   Input length: ${encrypted.length} characters`);
+      this.log(`\n🔑 Layer ${i + 1}/${algorithms.length}: Encrypting with ${algorithm.toUpperCase()}`);
+      this.log(`   Input length: ${encrypted.length} ${unit}`);
       
       // Use existing key if provided, otherwise generate new one
-      const key = existingKeys?.[algorithm] || await this.generateKey(algorithm, mode);
+      const key = existingKeys?.[i] || await this.generateKey(algorithm, mode);
       
-      if (existingKeys?.[algorithm]) {
-        console.log(`   ✅ Using pre-generated key`);
+      if (existingKeys?.[i]) {
+        this.log(`   ✅ Using pre-generated key`);
       } else {
-        console.log(`   ⚠️ Generating NEW key (no existing key found)`);
+        this.log(`   ⚠️ Generating NEW key (no existing key found)`);
       }
       
-      const result = await this.encrypt(encrypted, algorithm, key, mode);
+      const result = await encryptLayer(encrypted, algorithm, key);
       encrypted = result.encrypted;
-      keys[algorithm] = key;
+      keys[i] = key;
       metrics.push(result.performanceMetrics);
       layers.push({
         algorithm,
         key,
         order: i + 1,
       });
+      if (sampleIntermediates !== undefined) {
+        intermediates.push(encrypted.slice(0, sampleIntermediates) as T);
+      }
       
-      console.log(`   ✅ Success! Output length: ${encrypted.length} characters`);
+      this.log(`   ✅ Success! Output length: ${encrypted.length} ${unit}`);
+      onProgress?.({ operation: "encrypt", completed: i + 1, total: algorithms.length, algorithm });
+    }
+
+    this.log(`\n✅ Multi-layer encryption completed!`);
+    this.log(`🔑 Keys used: ${keys.length}`);
+
+    return { encrypted, keys, metrics, layers, intermediates };
+  }
+
+  // Enveloped ciphertexts describe their own layers, mode and KDF parameters.
+  // Bare ciphertexts from before the envelope need the caller to supply them via `legacy`.
+  private openEnvelope(
+    ciphertext: string,
+    legacy?: { algorithms: CipherAlgorithm[]; mode: SecurityMode }
+  ): {
+    body: string;
+    algorithms: CipherAlgorithm[];
+    mode: SecurityMode;
+    options: LayerCipherOptions;
+    header?: EnvelopeHeader;
+  } {
+    const envelope = unwrapEnvelope(ciphertext);
+
+    if (envelope) {
+      return {
+        body: envelope.ciphertext,
+        algorithms: envelope.header.layers,
+        mode: envelope.header.securityMode,
+        options: { kdf: envelope.header.kdf, associatedData: envelope.encodedHeader },
+        header: envelope.header,
+      };
     }
 
-    console.log(`\n✅ Multi-layer encryption completed!`);
-    console.log(`📦 Final ciphertext length: ${encrypted.length} characters`);
-    console.log(`🔑 Keys used: ${Object.keys(keys).length}\n`);
+    if (legacy) {
+      this.log(`ℹ️ No envelope header found, using legacy layer list`);
+      return {
+        body: ciphertext,
+        algorithms: legacy.algorithms,
+        mode: legacy.mode,
+        options: { kdf: this.aes.getKdfParams(legacy.mode) },
+      };
+    }
 
-    return { encrypted, keys, metrics, layers };
+    throw new Error(
+      "Ciphertext has no envelope header. Select the security mode it was encrypted with to decrypt it."
+    );
   }
 
   async multiLayerDecrypt(
     ciphertext: string,
+    keys: string[],
+    legacy?: { algorithms: CipherAlgorithm[]; mode: SecurityMode },
+    pipeline: PipelineOptions = {}
+  ): Promise<{
+    decrypted: string;
+    metrics: PerformanceMetrics[];
+    summary: PerformanceMetrics;
+    layers: EncryptionLayer[];
+    algorithms: CipherAlgorithm[];
+    mode: SecurityMode;
+  }> {
+    const envelope = new PhaseTimer();
+    const { body, algorithms, mode, options, header } = envelope.measure("encoding", () =>
+      this.openEnvelope(ciphertext, legacy)
+    );
+    if (header?.encoding === "binary") {
+      throw new Error("This ciphertext contains a binary file. Decrypt it as a file instead of text.");
+    }
+
+    const result = await this.decryptLayers(body, algorithms, keys, mode, pipeline, (input, algorithm, key) =>
+      this.decrypt(input, algorithm, key, mode, options)
+    );
+
+    const summary = combineMetrics(result.metrics, envelope, byteLength(ciphertext), byteLength(result.decrypted));
+    return { ...result, summary, algorithms, mode };
+  }
+
+  // Accepts both text and binary envelopes; text plaintexts are returned UTF-8 encoded
+  async multiLayerDecryptBytes(
+    ciphertext: string,
+    keys: string[],
+    legacy?: { algorithms: CipherAlgorithm[]; mode: SecurityMode },
+    pipeline: PipelineOptions = {}
+  ): Promise<{
+    decrypted: Uint8Array<ArrayBuffer>;
+    metrics: PerformanceMetrics[];
+    summary: PerformanceMetrics;
+    layers: EncryptionLayer[];
+    algorithms: CipherAlgorithm[];
+    mode: SecurityMode;
+    file?: FileMetadata;
+  }> {
+    const envelope = new PhaseTimer();
+    const { body, algorithms, mode, options, header } = envelope.measure("encoding", () =>
+      this.openEnvelope(ciphertext, legacy)
+    );
+    const summarize = (result: { metrics: PerformanceMetrics[] }, decrypted: Uint8Array) =>
+      combineMetrics(result.metrics, envelope, ciphertext.length, decrypted.length);
+
+    if (header?.encoding !== "binary") {
+      const result = await this.decryptLayers(body, algorithms, keys, mode, pipeline, (input, algorithm, key) =>
+        this.decrypt(input, algorithm, key, mode, options)
+      );
+      const decrypted = envelope.measure("encoding", () => utf8Encode(result.decrypted));
+      return { ...result, decrypted, summary: summarize(result, decrypted), algorithms, mode };
+    }
+
+    let data: Uint8Array<ArrayBuffer>;
+    try {
+      data = envelope.measure("encoding", () => base64ToBytes(body.trim()));
+    } catch {
+      throw new Error("Binary ciphertext body is not valid base64. The file may be corrupted.");
+    }
+
+    const result = await this.decryptLayers(data, algorithms, keys, mode, pipeline, (input, algorithm, key) =>
+      this.decryptBytes(input, algorithm, key, mode, options)
+    );
+    return { ...result, summary: summarize(result, result.decrypted), algorithms, mode, file: header.file };
+  }
+
+  private async decryptLayers<T extends string | Uint8Array<ArrayBuffer>>(
+    ciphertext: T,
     algorithms: CipherAlgorithm[],
-    keys: Record<string, string>,
-    mode: SecurityMode = "high"
-  ): Promise<{ decrypted: string; metrics: PerformanceMetrics[]; layers: EncryptionLayer[] }> {
-    // Validate all required keys exist
+    keys: string[],
+    mode: SecurityMode,
+    { onProgress, signal }: PipelineOptions,
+    decryptLayer: (input: T, algorithm: CipherAlgorithm, key: string) => Promise<DecryptionResult<T>>
+  ): Promise<{ decrypted: T; metrics: PerformanceMetrics[]; layers: EncryptionLayer[] }> {
+    // Validate all required keys exist (keys[i] belongs to layer i)
     const missingKeys: string[] = [];
-    for (const algorithm of algorithms) {
-      if (!keys[algorithm]) {
-        missingKeys.push(algorithm.toUpperCase());
+    algorithms.forEach((algorithm, index) => {
+      if (!keys[index]) {
+        missingKeys.push(`${index + 1}. ${algorithm.toUpperCase()}`);
       }
-    }
+    });
     if (missingKeys.length > 0) {
       throw new Error(`Missing keys for: ${missingKeys.join(", ")}. Click "Clear" and regenerate all keys.`);
     }
 
+    const unit = typeof ciphertext === "string" ? "characters" : "bytes";
+    const preview = (value: T) => (typeof value === "string" ? value.substring(0, 50) : `<${value.length} bytes>`);
     let decrypted = ciphertext;
     const metrics: PerformanceMetrics[] = [];
     const layers: EncryptionLayer[] = [];
 
-    console.log(`🔓 Starting multi-layer decryption with ${algorithms.length} layers`);
-    console.log(`📋 Algorithms (reverse order):`, [...algorithms].reverse());
+    this.log(`🔓 Starting multi-layer decryption with ${algorithms.length} layers`);
+    this.log(`📋 Algorithms (reverse order):`, [...algorithms].reverse());
+    onProgress?.({ operation: "decrypt", completed: 0, total: algorithms.length });
 
     // Decrypt in reverse order
     for (let i = algorithms.length - 1; i >= 0; i--) {
+      throwIfCancelled(signal);
       const algorithm = algorithms[i];
-      const key = keys[algorithm];
+      const key = keys[i];
       
-      console.log(`\n🔑 Layer ${algorithms.length - i}/${algorithms.length}: Decrypting with ${algorithm.toUpperCase()}`);
-      console.log(`   Input length: ${decrypted.length} characters`);
-      console.log(`   Input preview: ${decrypted.substring(0, 50)}...`);
+      this.log(`\n🔑 Layer ${algorithms.length - i}/${algorithms.length}: Decrypting with ${algorithm.toUpperCase()}`);
+      this.log(`   Input length: ${decrypted.length} ${unit}`);
+      this.log(`   Input preview: ${preview(decrypted)}...`);
       
       try {
-        const result = await this.decrypt(decrypted, algorithm, key, mode);
+        const result = await decryptLayer(decrypted, algorithm, key);
         decrypted = result.decrypted;
-        console.log(`   ✅ Success! Output length: ${decrypted.length} characters`);
-        console.log(`   Output preview: ${decrypted.substring(0, 50)}...`);
+        this.log(`   ✅ Success! Output length: ${decrypted.length} ${unit}`);
+        this.log(`   Output preview: ${preview(decrypted)}...`);
         
         metrics.push(result.performanceMetrics);
         layers.push({
@@ -329,6 +475,7 @@ export class EncryptionManager {
           key,
           order: algorithms.length - i,
         });
+        onProgress?.({ operation: "decrypt", completed: algorithms.length - i, total: algorithms.length, algorithm });
       } catch (error) {
         console.error(`   ❌ Decryption failed at layer ${algorithms.length - i} (${algorithm.toUpperCase()})`);
         console.error(`   Error:`, error);
@@ -350,8 +497,8 @@ export class EncryptionManager {
       }
     }
 
-    console.log(`\n✅ Multi-layer decryption completed successfully!`);
-    console.log(`📝 Final plaintext length: ${decrypted.length} characters\n`);
+    this.log(`\n✅ Multi-layer decryption completed successfully!`);
+    this.log(`📝 Final plaintext length: ${decrypted.length} ${unit}\n`);
 
     return { decrypted, metrics, layers };
   }
@@ -0,0 +1,228 @@
+import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom, shuffle } from "./random";
+import { utf8Encode, utf8Decode } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// Enigma I (Wehrmacht/Luftwaffe): three of rotors I-V, reflector B or C, ring settings, start
+// positions and plugboard cables. Rotors are listed left to right, as on the machine.
+export interface EnigmaKey {
+  reflector: string;
+  rotors: string[];
+  // One letter per rotor, A = ring setting 01
+  rings: string;
+  positions: string;
+  // Space-separated letter pairs, e.g. "AV BS CG"
+  plugboard: string;
+}
+
+const ROTORS: Record<string, { wiring: string; notch: string }> = {
+  I: { wiring: "EKMFLGDQVZNTOWYHXUSPAIBRCJ", notch: "Q" },
+  II: { wiring: "AJDKSIRUXBLHWTMCQGZNPYFVOE", notch: "E" },
+  III: { wiring: "BDFHJLCPRTXVZNYEIWGAKMUSQO", notch: "V" },
+  IV: { wiring: "ESOVPZJAYQUIRHXLNFTGKDCMWB", notch: "J" },
+  V: { wiring: "VZBRGITYUPSDNHLXAWMQOKFCEJ", notch: "Z" },
+};
+
+const REFLECTORS: Record<string, string> = {
+  B: "YRUHQSLDPXNGOKMIEBFZCWVJAT",
+  C: "FVPJIAOYEDRZXWGCTKUQSBNMHL",
+};
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export const ENIGMA_ROTORS = Object.keys(ROTORS);
+export const ENIGMA_REFLECTORS = Object.keys(REFLECTORS);
+export const ENIGMA_MAX_PLUGS = 13;
+
+interface Rotor {
+  forward: number[];
+  backward: number[];
+  notch: number;
+  ring: number;
+  position: number;
+}
+
+// The machine is its own inverse: the same settings encrypt and decrypt. Only ASCII letters are
+// enciphered (case kept); everything else passes through without stepping the rotors.
+export class EnigmaCipher {
+  getPlugCount(mode: SecurityMode): number {
+    switch (mode) {
+      case "high":
+        return 10;
+      case "balanced":
+        return 6;
+      case "lightweight":
+        return 3;
+    }
+  }
+
+  generateKey(mode: SecurityMode, source: RandomSource = secureRandom): EnigmaKey {
+    const randomLetters = (count: number) =>
+      Array.from({ length: count }, () => ALPHABET[randomInt(ALPHABET.length, source)]).join("");
+    const cabled = shuffle([...ALPHABET], source).slice(0, 2 * this.getPlugCount(mode));
+    const pairs: string[] = [];
+    for (let i = 0; i < cabled.length; i += 2) {
+      pairs.push(cabled[i] + cabled[i + 1]);
+    }
+    return {
+      reflector: ENIGMA_REFLECTORS[randomInt(ENIGMA_REFLECTORS.length, source)],
+      rotors: shuffle(ENIGMA_ROTORS, source).slice(0, 3),
+      rings: randomLetters(3),
+      positions: randomLetters(3),
+      plugboard: pairs.join(" "),
+    };
+  }
+
+  keyToString(key: EnigmaKey): string {
+    return JSON.stringify(key);
+  }
+
+  stringToKey(keyString: string): EnigmaKey {
+    let key: EnigmaKey;
+    try {
+      key = JSON.parse(keyString);
+    } catch {
+      throw new Error(
+        'Invalid Enigma key format: must be JSON such as {"reflector":"B","rotors":["I","II","III"],"rings":"AAA","positions":"AAA","plugboard":"AB CD"}'
+      );
+    }
+    this.validateKey(key);
+    return key;
+  }
+
+  validateKey(key: EnigmaKey): void {
+    if (typeof key !== "object" || key === null) {
+      throw new Error("Invalid Enigma key: expected an object with reflector, rotors, rings, positions and plugboard");
+    }
+    if (!REFLECTORS[key.reflector]) {
+      throw new Error(`Invalid Enigma key: reflector must be one of ${ENIGMA_REFLECTORS.join(", ")}`);
+    }
+    if (
+      !Array.isArray(key.rotors) ||
+      key.rotors.length !== 3 ||
+      key.rotors.some((rotor) => !ROTORS[rotor]) ||
+      new Set(key.rotors).size !== 3
+    ) {
+      throw new Error(`Invalid Enigma key: choose three different rotors from ${ENIGMA_ROTORS.join(", ")}`);
+    }
+    for (const [name, value] of [["rings", key.rings], ["positions", key.positions]]) {
+      if (typeof value !== "string" || !/^[A-Z]{3}$/.test(value)) {
+        throw new Error(`Invalid Enigma key: ${name} must be three letters A-Z, one per rotor`);
+      }
+    }
+    this.parsePlugboard(key.plugboard);
+  }
+
+  // Letter-for-letter swap table; letters without a cable map to themselves
+  private parsePlugboard(plugboard: string): number[] {
+    if (typeof plugboard !== "string") {
+      throw new Error("Invalid Enigma key: plugboard must be a string of letter pairs");
+    }
+    const pairs = plugboard.toUpperCase().split(/\s+/).filter(Boolean);
+    const swap = [...ALPHABET].map((_, i) => i);
+    const used = new Set<string>();
+    for (const pair of pairs) {
+      if (!/^[A-Z]{2}$/.test(pair) || pair[0] === pair[1] || used.has(pair[0]) || used.has(pair[1])) {
+        throw new Error(`Invalid Enigma key: plugboard pair "${pair}" must join two letters not used elsewhere`);
+      }
+      used.add(pair[0]);
+      used.add(pair[1]);
+      const a = pair.charCodeAt(0) - 65;
+      const b = pair.charCodeAt(1) - 65;
+      swap[a] = b;
+      swap[b] = a;
+    }
+    return swap;
+  }
+
+  private buildRotors(key: EnigmaKey): Rotor[] {
+    return key.rotors.map((name, i) => {
+      const { wiring, notch } = ROTORS[name];
+      const forward = [...wiring].map((c) => c.charCodeAt(0) - 65);
+      const backward = new Array<number>(26);
+      forward.forEach((to, from) => (backward[to] = from));
+      return {
+        forward,
+        backward,
+        notch: notch.charCodeAt(0) - 65,
+        ring: key.rings.charCodeAt(i) - 65,
+        position: key.positions.charCodeAt(i) - 65,
+      };
+    });
+  }
+
+  // The right rotor steps every key press and carries at its notch; the middle rotor also steps
+  // itself when it carries to the left one (the double step)
+  private step([left, middle, right]: Rotor[]): void {
+    if (middle.position === middle.notch) {
+      middle.position = (middle.position + 1) % 26;
+      left.position = (left.position + 1) % 26;
+    } else if (right.position === right.notch) {
+      middle.position = (middle.position + 1) % 26;
+    }
+    right.position = (right.position + 1) % 26;
+  }
+
+  private through(rotor: Rotor, letter: number, wiring: number[]): number {
+    const offset = rotor.position - rotor.ring;
+    return (wiring[(letter + offset + 26) % 26] - offset + 26) % 26;
+  }
+
+  private transform(data: Uint8Array, key: EnigmaKey): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    const rotors = this.buildRotors(key);
+    const plugboard = this.parsePlugboard(key.plugboard);
+    const reflector = [...REFLECTORS[key.reflector]].map((c) => c.charCodeAt(0) - 65);
+    const output = Uint8Array.from(data);
+
+    for (let i = 0; i < data.length; i++) {
+      const upper = data[i] & 0xdf;
+      if (upper < 65 || upper > 90) continue;
+      this.step(rotors);
+      let letter = plugboard[upper - 65];
+      for (let r = rotors.length - 1; r >= 0; r--) {
+        letter = this.through(rotors[r], letter, rotors[r].forward);
+      }
+      letter = reflector[letter];
+      for (let r = 0; r < rotors.length; r++) {
+        letter = this.through(rotors[r], letter, rotors[r].backward);
+      }
+      output[i] = plugboard[letter] + 65 + (data[i] - upper);
+    }
+    return output;
+  }
+
+  encrypt(plaintext: string, key: EnigmaKey, timer?: PhaseTimer): string {
+    const output = this.transform(timePhase(timer, "encoding", () => utf8Encode(plaintext)), key);
+    return timePhase(timer, "encoding", () => utf8Decode(output));
+  }
+
+  decrypt(ciphertext: string, key: EnigmaKey, timer?: PhaseTimer): string {
+    return this.encrypt(ciphertext, key, timer);
+  }
+
+  encryptBytes(data: Uint8Array, key: EnigmaKey): Uint8Array<ArrayBuffer> {
+    return this.transform(data, key);
+  }
+
+  decryptBytes(data: Uint8Array, key: EnigmaKey): Uint8Array<ArrayBuffer> {
+    return this.transform(data, key);
+  }
+
+  // log2 of the number of machine settings of this shape: rotor order, reflector, the two rings
+  // that matter (the left ring only moves with its own start position), start positions and cables
+  keySpaceBits(plugPairs: number): number {
+    const log2Factorial = (n: number) => {
+      let bits = 0;
+      for (let i = 2; i <= n; i++) bits += Math.log2(i);
+      return bits;
+    };
+    const rotorOrders = Math.log2(5 * 4 * 3);
+    const plugboard = log2Factorial(26) - log2Factorial(26 - 2 * plugPairs) - log2Factorial(plugPairs) - plugPairs;
+    return rotorOrders + Math.log2(ENIGMA_REFLECTORS.length) + 5 * Math.log2(26) + plugboard;
+  }
+
+  countPlugs(key: EnigmaKey): number {
+    return key.plugboard.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -0,0 +1,56 @@
+import { KeyEstimate } from "./types";
+import { hexToBytes } from "./encoding";
+
+// Smallest p such that the sequence is its first p items repeated at least twice (the last copy
+// may be cut short); the full length when it does not repeat
+export function repeatingPeriod(items: ArrayLike<unknown>): number {
+  const length = items.length;
+  for (let period = 1; period <= length / 2; period++) {
+    let repeats = true;
+    for (let i = period; i < length && repeats; i++) {
+      repeats = items[i] === items[i - period];
+    }
+    if (repeats) {
+      return period;
+    }
+  }
+  return length;
+}
+
+// Password-style estimate: log2 of the character pool for every character of the repeating unit
+export function estimateTypedKeyBits(text: string): number {
+  const characters = [...text];
+  let pool = 0;
+  if (characters.some((c) => c >= "a" && c <= "z")) pool += 26;
+  if (characters.some((c) => c >= "A" && c <= "Z")) pool += 26;
+  if (characters.some((c) => c >= "0" && c <= "9")) pool += 10;
+  if (characters.some((c) => c.charCodeAt(0) < 128 && !/[a-zA-Z0-9]/.test(c))) pool += 33;
+  if (characters.some((c) => c.charCodeAt(0) >= 128)) pool += 64;
+  return pool === 0 ? 0 : repeatingPeriod(characters) * Math.log2(pool);
+}
+
+// Generated secret keys are random hex; anything else was typed in and is rated like a password
+export function analyzeSecretKey(key: string): KeyEstimate {
+  let bytes: Uint8Array | null = null;
+  try {
+    bytes = key.length >= 16 ? hexToBytes(key) : null;
+  } catch {
+    // Not hex: a typed key
+  }
+
+  if (!bytes) {
+    return {
+      entropyBits: estimateTypedKeyBits(key),
+      warnings: ["Typed key, not a generated one: it is only as strong as the text chosen"],
+    };
+  }
+
+  const period = repeatingPeriod(bytes);
+  if (period < bytes.length) {
+    return {
+      entropyBits: period * 8,
+      warnings: [`Key repeats a ${period}-byte pattern, so it was not randomly generated`],
+    };
+  }
+  return { entropyBits: bytes.length * 8, warnings: [] };
+}
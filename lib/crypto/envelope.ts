@@ -0,0 +1,84 @@
+import { EnvelopeHeader, SecurityMode } from "./types";
+import { utf8Encode, utf8Decode, bytesToBase64Url, base64UrlToBytes } from "./encoding";
+import { AESCipher } from "./aes";
+import { isSupportedPassphraseParams } from "./passphrase";
+import { cipherRegistry } from "./ciphers";
+
+// Envelope layout: MAGIC + "." + base64url(JSON header) + "." + ciphertext
+// The magic header never appears in legacy output, which is hex/base64/letters only.
+export const ENVELOPE_MAGIC = "SCX";
+export const ENVELOPE_VERSION = 1;
+
+const SECURITY_MODES: SecurityMode[] = ["high", "balanced", "lightweight"];
+const aes = new AESCipher();
+
+export function isEnvelope(text: string): boolean {
+  return text.startsWith(`${ENVELOPE_MAGIC}.`);
+}
+
+// The encoded header is also used as associated data by the AEAD layers,
+// so it must be computed once and reused verbatim when wrapping.
+export function encodeEnvelopeHeader(header: Omit<EnvelopeHeader, "version">): string {
+  const fullHeader: EnvelopeHeader = { version: ENVELOPE_VERSION, ...header };
+  return bytesToBase64Url(utf8Encode(JSON.stringify(fullHeader)));
+}
+
+export function wrapEnvelope(encodedHeader: string, ciphertext: string): string {
+  return `${ENVELOPE_MAGIC}.${encodedHeader}.${ciphertext}`;
+}
+
+// Returns null for bare (legacy) ciphertexts so callers can fall back
+export function unwrapEnvelope(
+  text: string
+): { header: EnvelopeHeader; encodedHeader: string; ciphertext: string } | null {
+  // Only leading whitespace is dropped: trailing characters can belong to classical-cipher output
+  const trimmed = text.trimStart();
+  if (!isEnvelope(trimmed)) {
+    return null;
+  }
+
+  const headerEnd = trimmed.indexOf(".", ENVELOPE_MAGIC.length + 1);
+  if (headerEnd === -1) {
+    throw new Error("Invalid ciphertext envelope: missing header terminator");
+  }
+
+  const encodedHeader = trimmed.substring(ENVELOPE_MAGIC.length + 1, headerEnd);
+  let header: EnvelopeHeader;
+  try {
+    header = JSON.parse(utf8Decode(base64UrlToBytes(encodedHeader)));
+  } catch {
+    throw new Error("Invalid ciphertext envelope: header is corrupted");
+  }
+
+  validateHeader(header);
+
+  return { header, encodedHeader, ciphertext: trimmed.substring(headerEnd + 1) };
+}
+
+function validateHeader(header: EnvelopeHeader): void {
+  if (typeof header.version !== "number" || header.version > ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${header.version}`);
+  }
+  if (!SECURITY_MODES.includes(header.securityMode)) {
+    throw new Error(`Invalid envelope security mode: ${header.securityMode}`);
+  }
+  if (!Array.isArray(header.layers) || header.layers.length === 0) {
+    throw new Error("Invalid ciphertext envelope: layer list is empty");
+  }
+  const unknown = header.layers.filter((layer) => !cipherRegistry.has(layer));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid ciphertext envelope: unknown layers ${unknown.join(", ")}`);
+  }
+  if (!aes.isSupportedKdf(header.kdf)) {
+    throw new Error("Invalid ciphertext envelope: unsupported KDF parameters");
+  }
+  if (header.encoding !== "utf8" && header.encoding !== "binary") {
+    throw new Error(`Invalid ciphertext envelope: unsupported encoding ${header.encoding}`);
+  }
+  if (header.file && (typeof header.file.name !== "string" || typeof header.file.type !== "string")) {
+    throw new Error("Invalid ciphertext envelope: malformed file metadata");
+  }
+  if (header.passphrase && !isSupportedPassphraseParams(header.passphrase)) {
+    throw new Error("Invalid ciphertext envelope: unsupported passphrase parameters");
+  }
+}
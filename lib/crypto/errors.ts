@@ -0,0 +1,21 @@
+// Raised when an AEAD tag does not verify: the key is wrong or the data was modified
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+// Raised when an operation is aborted through its AbortSignal or the worker is cancelled
+export class CancelledError extends Error {
+  constructor(message: string = "Operation cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
@@ -0,0 +1,117 @@
+import { utf8Encode } from "./encoding";
+
+// Relative frequencies of A..Z in English text
+export const ENGLISH_LETTER_FREQUENCIES = [
+  0.08167, 0.01492, 0.02782, 0.04253, 0.12702, 0.02228, 0.02015, 0.06094, 0.06966, 0.00153, 0.00772, 0.04025, 0.02406,
+  0.06749, 0.07507, 0.01929, 0.00095, 0.05987, 0.06327, 0.09056, 0.02758, 0.00978, 0.0236, 0.0015, 0.01974, 0.00074,
+];
+
+// Index of coincidence of English and of uniformly random letters
+export const ENGLISH_IC = 0.0667;
+export const RANDOM_IC = 1 / 26;
+
+// Upper-case A-Z only, with everything else dropped
+export function lettersOnly(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z]/g, "");
+}
+
+export function letterCounts(letters: string): number[] {
+  const counts = new Array<number>(26).fill(0);
+  for (let i = 0; i < letters.length; i++) {
+    counts[letters.charCodeAt(i) - 65]++;
+  }
+  return counts;
+}
+
+// Chi-squared distance of letter counts from English; lower reads more like English
+export function chiSquaredEnglish(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return Infinity;
+  return counts.reduce((sum, count, i) => {
+    const expected = total * ENGLISH_LETTER_FREQUENCIES[i];
+    return sum + ((count - expected) * (count - expected)) / expected;
+  }, 0);
+}
+
+// Probability that two letters drawn without replacement are the same
+export function indexOfCoincidence(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 2) return 0;
+  return counts.reduce((sum, count) => sum + count * (count - 1), 0) / (total * (total - 1));
+}
+
+// Log-likelihood of the letters under English frequencies; higher reads more like English. Steadier
+// than chi-squared on the few letters of a Vigenère column.
+export function englishLogLikelihood(counts: number[]): number {
+  return counts.reduce((sum, count, i) => sum + count * Math.log(ENGLISH_LETTER_FREQUENCIES[i]), 0);
+}
+
+// Bits per byte: 8 for uniformly random bytes, about 4.5 for English text
+export function shannonEntropy(bytes: Uint8Array): number {
+  if (bytes.length === 0) return 0;
+  const counts = new Array<number>(256).fill(0);
+  for (let i = 0; i < bytes.length; i++) {
+    counts[bytes[i]]++;
+  }
+  return counts.reduce((sum, count) => {
+    if (count === 0) return sum;
+    const p = count / bytes.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+}
+
+// Profiles are taken from the first 64 KiB: enough for stable frequencies, cheap to chart
+export const FREQUENCY_SAMPLE_SIZE = 64 * 1024;
+
+// The plaintext or one layer's output, as charted by the frequency visualizer
+export interface FrequencySample {
+  label: string;
+  data: string | Uint8Array;
+}
+
+export interface FrequencyProfile {
+  // Relative frequencies: A..Z, then byte values 0..255
+  letters: number[];
+  bytes: number[];
+  // Most common adjacent letter pairs, most frequent first
+  bigrams: { bigram: string; frequency: number }[];
+  letterCount: number;
+  byteCount: number;
+  chiSquared: number;
+  entropy: number;
+}
+
+// Text is measured as UTF-8 bytes; letters are the ASCII A-Z/a-z among them, so bytes and
+// base64 strings are profiled the same way
+export function frequencyProfile(sample: string | Uint8Array, topBigrams: number = 30): FrequencyProfile {
+  const bytes = typeof sample === "string" ? utf8Encode(sample) : sample;
+  let letters = "";
+  for (let i = 0; i < bytes.length; i++) {
+    const upper = bytes[i] & 0xdf;
+    if (upper >= 65 && upper <= 90) letters += String.fromCharCode(upper);
+  }
+
+  const counts = letterCounts(letters);
+  const byteCounts = new Array<number>(256).fill(0);
+  for (let i = 0; i < bytes.length; i++) {
+    byteCounts[bytes[i]]++;
+  }
+  const bigramCounts = new Map<string, number>();
+  for (let i = 0; i + 1 < letters.length; i++) {
+    const bigram = letters.substring(i, i + 2);
+    bigramCounts.set(bigram, (bigramCounts.get(bigram) ?? 0) + 1);
+  }
+
+  return {
+    letters: counts.map((count) => (letters.length > 0 ? count / letters.length : 0)),
+    bytes: byteCounts.map((count) => (bytes.length > 0 ? count / bytes.length : 0)),
+    bigrams: [...bigramCounts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topBigrams)
+      .map(([bigram, count]) => ({ bigram, frequency: count / (letters.length - 1) })),
+    letterCount: letters.length,
+    byteCount: bytes.length,
+    chiSquared: chiSquaredEnglish(counts),
+    entropy: shannonEntropy(bytes),
+  };
+}
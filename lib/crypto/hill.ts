@@ -1,62 +1,135 @@
+import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom } from "./random";
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// classic: textbook Hill over A-Z; non-letters are dropped and the last block is padded with X.
+// binary: the matrix works on bytes mod 256, so any layer output (AES, RSA, ...) can be fed through.
+// hex: the original scheme (text hex-expanded into A-P, mod 26), kept for keys that are a bare matrix.
+export type HillMode = "classic" | "binary" | "hex";
+
+export interface HillKey {
+  mode: HillMode;
+  matrix: number[][];
+}
+
+export const HILL_MIN_SIZE = 2;
+export const HILL_MAX_SIZE = 5;
+
+// Binary text output: prefix + base64(blocks). Every message is padded PKCS#7-style to whole blocks.
+const BINARY_PREFIX = "hill256:";
+
 export class HillCipher {
   private readonly ALPHABET_SIZE = 26;
 
-  generateKey(size: number = 2): number[][] {
-    let matrix: number[][];
-    let attempts = 0;
-    const maxAttempts = 100;
+  getMatrixSize(mode: SecurityMode): number {
+    switch (mode) {
+      case "high":
+        return 4;
+      case "balanced":
+        return 3;
+      case "lightweight":
+        return 2;
+    }
+  }
 
-    do {
-      matrix = [];
+  getModulus(mode: HillMode): number {
+    return mode === "binary" ? 256 : this.ALPHABET_SIZE;
+  }
+
+  generateKey(size: number = 2, source: RandomSource = secureRandom, mode: HillMode = "binary"): HillKey {
+    if (!Number.isInteger(size) || size < HILL_MIN_SIZE || size > HILL_MAX_SIZE) {
+      throw new Error(`Hill matrix size must be between ${HILL_MIN_SIZE} and ${HILL_MAX_SIZE}`);
+    }
+    const modulus = this.getModulus(mode);
+    const maxAttempts = 1000;
+
+    // A random matrix is invertible about a third of the time, so running out of attempts means a broken source
+    for (let attempts = 0; attempts < maxAttempts; attempts++) {
+      const matrix: number[][] = [];
       for (let i = 0; i < size; i++) {
         matrix[i] = [];
         for (let j = 0; j < size; j++) {
-          matrix[i][j] = Math.floor(Math.random() * this.ALPHABET_SIZE);
+          matrix[i][j] = randomInt(modulus, source);
         }
       }
-      attempts++;
-    } while (!this.isInvertible(matrix) && attempts < maxAttempts);
+      if (this.isInvertible(matrix, modulus)) {
+        return { mode, matrix };
+      }
+    }
+    throw new Error("Hill key generation failed: no invertible matrix found");
+  }
 
-    if (attempts >= maxAttempts) {
-      // Fallback to a known invertible 2x2 matrix
-      return [
-        [3, 3],
-        [2, 5],
-      ];
+  // log2 of the number of invertible size×size matrices mod the mode's modulus:
+  // m^(n²) times, for each prime p dividing m, the product over k = 1..n of (1 - p^-k)
+  keySpaceBits(size: number, mode: HillMode): number {
+    const modulus = this.getModulus(mode);
+    const primes = [2, 3, 5, 7, 11, 13].filter((p) => modulus % p === 0);
+    let bits = size * size * Math.log2(modulus);
+    for (const p of primes) {
+      for (let k = 1; k <= size; k++) {
+        bits += Math.log2(1 - Math.pow(p, -k));
+      }
     }
+    return bits;
+  }
 
-    return matrix;
+  // Hex-mode keys keep the original bare-matrix format so old key files stay valid
+  keyToString(key: HillKey): string {
+    return JSON.stringify(key.mode === "hex" ? key.matrix : key);
   }
 
-  keyToString(matrix: number[][]): string {
-    return JSON.stringify(matrix);
+  stringToKey(keyString: string): HillKey {
+    const parsed = JSON.parse(keyString);
+    return Array.isArray(parsed) ? { mode: "hex", matrix: parsed } : parsed;
   }
 
-  stringToKey(keyString: string): number[][] {
-    return JSON.parse(keyString);
+  // Throws with a user-facing message for a matrix that cannot be used or cannot be inverted
+  validateKey(key: HillKey): void {
+    const { mode, matrix } = key;
+    if (mode !== "classic" && mode !== "binary" && mode !== "hex") {
+      throw new Error(`Invalid Hill key: unknown mode "${mode}"`);
+    }
+    if (
+      !Array.isArray(matrix) ||
+      matrix.length < HILL_MIN_SIZE ||
+      matrix.length > HILL_MAX_SIZE ||
+      !matrix.every((row) => Array.isArray(row) && row.length === matrix.length && row.every(Number.isInteger))
+    ) {
+      throw new Error(
+        `Invalid Hill key: the matrix must be square (${HILL_MIN_SIZE}×${HILL_MIN_SIZE} to ${HILL_MAX_SIZE}×${HILL_MAX_SIZE}) and contain integers`
+      );
+    }
+    const modulus = this.getModulus(mode);
+    if (!this.isInvertible(matrix, modulus)) {
+      throw new Error(`Invalid Hill key: the matrix is not invertible mod ${modulus}`);
+    }
   }
 
-  private isInvertible(matrix: number[][]): boolean {
-    const det = this.determinant(matrix);
-    const detMod = ((det % this.ALPHABET_SIZE) + this.ALPHABET_SIZE) % this.ALPHABET_SIZE;
-    return this.gcd(detMod, this.ALPHABET_SIZE) === 1;
+  isInvertible(matrix: number[][], modulus: number): boolean {
+    return this.gcd(this.determinant(matrix, modulus), modulus) === 1;
   }
 
-  private determinant(matrix: number[][]): number {
+  // Cofactor expansion, reduced mod `modulus` at every step so 5×5 byte matrices stay exact
+  private determinant(matrix: number[][], modulus: number): number {
     const size = matrix.length;
+    if (size === 1) {
+      return this.mod(matrix[0][0], modulus);
+    }
     if (size === 2) {
-      return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
+      return this.mod(matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0], modulus);
     }
     let det = 0;
     for (let j = 0; j < size; j++) {
-      det += matrix[0][j] * this.cofactor(matrix, 0, j);
+      det = this.mod(det + matrix[0][j] * this.cofactor(matrix, 0, j, modulus), modulus);
     }
     return det;
   }
 
-  private cofactor(matrix: number[][], row: number, col: number): number {
+  private cofactor(matrix: number[][], row: number, col: number, modulus: number): number {
     const minor = this.getMinor(matrix, row, col);
-    return Math.pow(-1, row + col) * this.determinant(minor);
+    const det = this.determinant(minor, modulus);
+    return (row + col) % 2 === 0 ? det : this.mod(-det, modulus);
   }
 
   private getMinor(matrix: number[][], row: number, col: number): number[][] {
@@ -65,46 +138,158 @@ export class HillCipher {
       .map((r) => r.filter((_, j) => j !== col));
   }
 
+  private mod(value: number, modulus: number): number {
+    return ((value % modulus) + modulus) % modulus;
+  }
+
   private gcd(a: number, b: number): number {
     return b === 0 ? a : this.gcd(b, a % b);
   }
 
   private modInverse(a: number, m: number): number {
-    a = ((a % m) + m) % m;
+    a = this.mod(a, m);
     for (let x = 1; x < m; x++) {
       if ((a * x) % m === 1) {
         return x;
       }
     }
-    return 1;
+    throw new Error(`Hill key is not invertible mod ${m}`);
   }
 
-  private invertMatrix(matrix: number[][]): number[][] {
+  invertMatrix(matrix: number[][], modulus: number): number[][] {
     const size = matrix.length;
-    const det = this.determinant(matrix);
-    const detMod = ((det % this.ALPHABET_SIZE) + this.ALPHABET_SIZE) % this.ALPHABET_SIZE;
-    const detInv = this.modInverse(detMod, this.ALPHABET_SIZE);
+    const detInv = this.modInverse(this.determinant(matrix, modulus), modulus);
 
     const adjugate: number[][] = [];
     for (let i = 0; i < size; i++) {
       adjugate[i] = [];
       for (let j = 0; j < size; j++) {
-        const cofactor = this.cofactor(matrix, j, i);
-        adjugate[i][j] =
-          ((cofactor * detInv) % this.ALPHABET_SIZE + this.ALPHABET_SIZE) % this.ALPHABET_SIZE;
+        adjugate[i][j] = this.mod(this.cofactor(matrix, j, i, modulus) * detInv, modulus);
       }
     }
 
     return adjugate;
   }
 
-  private multiplyMatrixVector(matrix: number[][], vector: number[]): number[] {
-    return matrix.map((row) =>
-      row.reduce((sum, val, i) => sum + val * vector[i], 0) % this.ALPHABET_SIZE
-    );
+  private multiplyMatrixVector(matrix: number[][], vector: ArrayLike<number>, modulus: number): number[] {
+    return matrix.map((row) => this.mod(row.reduce((sum, val, i) => sum + val * vector[i], 0), modulus));
+  }
+
+  // Runs every `size`-long block of values (already reduced mod `modulus`) through the matrix
+  private transform(values: Uint8Array, matrix: number[][], modulus: number): Uint8Array<ArrayBuffer> {
+    const size = matrix.length;
+    const output = new Uint8Array(values.length);
+    for (let i = 0; i < values.length; i += size) {
+      output.set(this.multiplyMatrixVector(matrix, values.subarray(i, i + size), modulus), i);
+    }
+    return output;
+  }
+
+  encrypt(plaintext: string, key: HillKey, timer?: PhaseTimer): string {
+    switch (key.mode) {
+      case "binary": {
+        const encrypted = this.encryptBinary(timePhase(timer, "encoding", () => utf8Encode(plaintext)), key.matrix);
+        return timePhase(timer, "encoding", () => BINARY_PREFIX + bytesToBase64(encrypted));
+      }
+      case "classic":
+        return this.encryptClassic(plaintext, key.matrix);
+      case "hex":
+        return this.encryptHex(plaintext, key.matrix);
+    }
   }
 
-  encrypt(plaintext: string, keyMatrix: number[][]): string {
+  decrypt(ciphertext: string, key: HillKey, timer?: PhaseTimer): string {
+    switch (key.mode) {
+      case "binary": {
+        if (!ciphertext.startsWith(BINARY_PREFIX)) {
+          throw new Error("Hill decryption failed: not a binary-mode Hill ciphertext");
+        }
+        let data: Uint8Array<ArrayBuffer>;
+        try {
+          data = timePhase(timer, "encoding", () => base64ToBytes(ciphertext.substring(BINARY_PREFIX.length)));
+        } catch {
+          throw new Error("Hill decryption failed: ciphertext is not valid base64");
+        }
+        const decrypted = this.decryptBinary(data, key.matrix);
+        return timePhase(timer, "encoding", () => utf8Decode(decrypted));
+      }
+      case "classic":
+        return this.decryptClassic(ciphertext, key.matrix);
+      case "hex":
+        return this.decryptHex(ciphertext, key.matrix);
+    }
+  }
+
+  // Binary mode maps bytes to bytes; the letter modes read and write ASCII
+  encryptBytes(data: Uint8Array, key: HillKey): Uint8Array<ArrayBuffer> {
+    if (key.mode === "binary") {
+      return this.encryptBinary(data, key.matrix);
+    }
+    let binary = "";
+    for (let i = 0; i < data.length; i++) {
+      binary += String.fromCharCode(data[i]);
+    }
+    const encrypted = this.encrypt(binary, key);
+    return Uint8Array.from(encrypted, (c) => c.charCodeAt(0));
+  }
+
+  decryptBytes(data: Uint8Array, key: HillKey): Uint8Array<ArrayBuffer> {
+    if (key.mode === "binary") {
+      return this.decryptBinary(data, key.matrix);
+    }
+    let letters = "";
+    for (let i = 0; i < data.length; i++) {
+      letters += String.fromCharCode(data[i]);
+    }
+    const decrypted = this.decrypt(letters, key);
+    return Uint8Array.from(decrypted, (c) => c.charCodeAt(0) & 0xff);
+  }
+
+  // Padding bytes each hold the padding length (1..size), so the plaintext length is recoverable
+  private encryptBinary(data: Uint8Array, matrix: number[][]): Uint8Array<ArrayBuffer> {
+    const size = matrix.length;
+    const padding = size - (data.length % size);
+    const padded = new Uint8Array(data.length + padding);
+    padded.set(data);
+    padded.fill(padding, data.length);
+    return this.transform(padded, matrix, 256);
+  }
+
+  private decryptBinary(data: Uint8Array, matrix: number[][]): Uint8Array<ArrayBuffer> {
+    const size = matrix.length;
+    if (data.length === 0 || data.length % size !== 0) {
+      throw new Error("Hill decryption failed: ciphertext is not a whole number of blocks");
+    }
+    const decrypted = this.transform(data, this.invertMatrix(matrix, 256), 256);
+    const padding = decrypted[decrypted.length - 1];
+    if (padding < 1 || padding > size || decrypted.subarray(decrypted.length - padding).some((byte) => byte !== padding)) {
+      throw new Error("Hill decryption failed: bad padding (wrong key?)");
+    }
+    return decrypted.slice(0, decrypted.length - padding);
+  }
+
+  // Textbook Hill: the X padding stays in the decrypted text, as it would on paper
+  private encryptClassic(plaintext: string, matrix: number[][]): string {
+    const letters = plaintext.toUpperCase().replace(/[^A-Z]/g, "");
+    const size = matrix.length;
+    const padded = letters + "X".repeat((size - (letters.length % size)) % size);
+    return this.transformLetters(padded, matrix);
+  }
+
+  private decryptClassic(ciphertext: string, matrix: number[][]): string {
+    const letters = ciphertext.toUpperCase().replace(/[^A-Z]/g, "");
+    if (letters.length % matrix.length !== 0) {
+      throw new Error("Hill decryption failed: ciphertext is not a whole number of blocks");
+    }
+    return this.transformLetters(letters, this.invertMatrix(matrix, this.ALPHABET_SIZE));
+  }
+
+  private transformLetters(letters: string, matrix: number[][]): string {
+    const values = Uint8Array.from(letters, (c) => c.charCodeAt(0) - 65);
+    return utf8Decode(this.transform(values, matrix, this.ALPHABET_SIZE).map((n) => n + 65));
+  }
+
+  private encryptHex(plaintext: string, keyMatrix: number[][]): string {
     const size = keyMatrix.length;
 
     // Convert to hex to preserve ALL characters safely
@@ -128,15 +313,7 @@ export class HillCipher {
     const paddedText = alphabetized + "X".repeat((size - (alphabetized.length % size)) % size);
     const paddingLength = paddedText.length - originalLength;
 
-    let result = "";
-    for (let i = 0; i < paddedText.length; i += size) {
-      const block = paddedText
-        .slice(i, i + size)
-        .split("")
-        .map((c) => c.charCodeAt(0) - 65);
-      const encrypted = this.multiplyMatrixVector(keyMatrix, block);
-      result += encrypted.map((n) => String.fromCharCode(n + 65)).join("");
-    }
+    const result = this.transformLetters(paddedText, keyMatrix);
 
     // Prepend padding length (encoded as 2-char string)
     const paddingInfo = String.fromCharCode(65 + Math.floor(paddingLength / 26)) +
@@ -145,24 +322,13 @@ export class HillCipher {
     return paddingInfo + result;
   }
 
-  decrypt(ciphertext: string, keyMatrix: number[][]): string {
+  private decryptHex(ciphertext: string, keyMatrix: number[][]): string {
     // Extract padding info
     const paddingInfo = ciphertext.substring(0, 2);
     const actualCiphertext = ciphertext.substring(2);
     const paddingLength = (paddingInfo.charCodeAt(0) - 65) * 26 + (paddingInfo.charCodeAt(1) - 65);
 
-    const inverseMatrix = this.invertMatrix(keyMatrix);
-    const size = keyMatrix.length;
-    let result = "";
-
-    for (let i = 0; i < actualCiphertext.length; i += size) {
-      const block = actualCiphertext
-        .slice(i, i + size)
-        .split("")
-        .map((c) => c.charCodeAt(0) - 65);
-      const decrypted = this.multiplyMatrixVector(inverseMatrix, block);
-      result += decrypted.map((n) => String.fromCharCode(n + 65)).join("");
-    }
+    let result = this.transformLetters(actualCiphertext, this.invertMatrix(keyMatrix, this.ALPHABET_SIZE));
 
     // Remove padding
     if (paddingLength > 0) {
@@ -0,0 +1,52 @@
+import { cipherRegistry } from "./ciphers";
+import { CipherRegistry } from "./registry";
+import { estimateTypedKeyBits } from "./entropy";
+import { CipherAlgorithm, KeyStrength, LayerKeyAnalysis, KeyAnalysisReport } from "./types";
+
+// Below MODERATE_BITS a key is within reach of brute force; STRONG_BITS matches 2048-bit RSA
+const MODERATE_BITS = 64;
+const STRONG_BITS = 112;
+
+function rateStrength(entropyBits: number, warnings: string[]): KeyStrength {
+  if (warnings.length > 0 || entropyBits < MODERATE_BITS) return "weak";
+  return entropyBits < STRONG_BITS ? "moderate" : "strong";
+}
+
+// Rates each layer key with its cipher's own estimate and combines them for the pipeline
+export class KeyAnalysisService {
+  constructor(private registry: CipherRegistry = cipherRegistry) {}
+
+  analyzeKey(algorithm: CipherAlgorithm, key: string): LayerKeyAnalysis {
+    const descriptor = this.registry.get(algorithm);
+    if (!key) {
+      return { algorithm, entropyBits: 0, warnings: ["No key yet"], strength: "weak" };
+    }
+    try {
+      descriptor.validateKey(key);
+    } catch (error) {
+      return { algorithm, entropyBits: 0, warnings: [error instanceof Error ? error.message : String(error)], strength: "weak" };
+    }
+    const { entropyBits, warnings } = descriptor.analyzeKey(key);
+    return { algorithm, entropyBits, warnings, strength: rateStrength(entropyBits, warnings) };
+  }
+
+  // Layer keys are independent, so their entropy adds up. Keys derived from a passphrase only exist
+  // while encrypting and can never be stronger than the passphrase, so it alone is rated.
+  analyze(layers: { algorithm: CipherAlgorithm; key: string }[], passphrase?: string): KeyAnalysisReport {
+    if (passphrase !== undefined) {
+      const passphraseBits = estimateTypedKeyBits(passphrase);
+      return {
+        layers: [],
+        combinedBits: passphraseBits,
+        strongestBits: passphraseBits,
+        passphraseBits,
+        strength: rateStrength(passphraseBits, []),
+      };
+    }
+
+    const analyses = layers.map((layer) => this.analyzeKey(layer.algorithm, layer.key));
+    const combinedBits = analyses.reduce((sum, analysis) => sum + analysis.entropyBits, 0);
+    const strongestBits = Math.max(0, ...analyses.map((analysis) => analysis.entropyBits));
+    return { layers: analyses, combinedBits, strongestBits, strength: rateStrength(strongestBits, []) };
+  }
+}
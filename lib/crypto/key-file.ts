@@ -0,0 +1,153 @@
+import { KeyBundle, ProtectedKeyFile, KdfParams, SecurityMode } from "./types";
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes, bytesToHex } from "./encoding";
+import { AuthenticationError } from "./errors";
+import { cipherRegistry } from "./ciphers";
+
+export const KEY_FILE_VERSION = 2;
+
+// The bundle holds every layer key, so the password KDF uses the strongest setting regardless of mode
+const KEY_FILE_KDF: KdfParams = { name: "PBKDF2", hash: "SHA-256", iterations: 600000 };
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+export const MIN_KEY_FILE_PASSWORD_LENGTH = 8;
+
+const SECURITY_MODES: SecurityMode[] = ["high", "balanced", "lightweight"];
+
+export function isProtectedKeyFile(data: unknown): data is ProtectedKeyFile {
+  return typeof data === "object" && data !== null && (data as { version?: unknown }).version === KEY_FILE_VERSION;
+}
+
+// Reads a plaintext key file. Version 1.0 stored keys by algorithm name, 1.1 stores one key per layer.
+export function parseKeyBundle(data: unknown): KeyBundle {
+  const file = data as { securityMode?: unknown; algorithms?: unknown; keys?: unknown; timestamp?: unknown } | null;
+  if (!file || !SECURITY_MODES.includes(file.securityMode as SecurityMode) || !Array.isArray(file.algorithms) || !file.keys) {
+    throw new Error("Invalid key file format");
+  }
+
+  const algorithms = file.algorithms.filter((algorithm) => cipherRegistry.has(algorithm));
+  if (algorithms.length !== file.algorithms.length) {
+    throw new Error("Key file lists an unknown algorithm");
+  }
+
+  const keys: unknown[] = Array.isArray(file.keys)
+    ? file.keys
+    : algorithms.map((algorithm) => (file.keys as Record<string, unknown>)[algorithm]);
+  if (keys.length !== algorithms.length || keys.some((key) => typeof key !== "string")) {
+    throw new Error("Key file does not have one key per layer");
+  }
+
+  return {
+    securityMode: file.securityMode as SecurityMode,
+    algorithms,
+    keys: keys as string[],
+    timestamp: typeof file.timestamp === "number" ? file.timestamp : Date.now(),
+  };
+}
+
+export async function protectKeyBundle(bundle: KeyBundle, password: string): Promise<ProtectedKeyFile> {
+  if (password.length < MIN_KEY_FILE_PASSWORD_LENGTH) {
+    throw new Error(`Key file password must be at least ${MIN_KEY_FILE_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header = {
+    version: KEY_FILE_VERSION as 2,
+    securityMode: bundle.securityMode,
+    algorithms: bundle.algorithms,
+    timestamp: bundle.timestamp,
+    kdf: KEY_FILE_KDF,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+  };
+
+  const key = await deriveFileKey(password, salt, KEY_FILE_KDF, ["encrypt"]);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData(header) },
+    key,
+    utf8Encode(JSON.stringify(bundle.keys))
+  );
+  const ciphertext = bytesToBase64(new Uint8Array(encrypted));
+
+  return { ...header, ciphertext, checksum: await computeChecksum({ ...header, ciphertext }) };
+}
+
+// Throws AuthenticationError for a wrong password. A damaged file fails the checksum or the format
+// checks first, so the caller never asks again for a password that cannot work.
+export async function unprotectKeyBundle(file: ProtectedKeyFile, password: string): Promise<KeyBundle> {
+  const { checksum, ciphertext, ...header } = file;
+  // Files are only ever written with KEY_FILE_KDF; anything stronger would just stall the derivation
+  const { kdf } = header;
+  if (
+    kdf?.name !== "PBKDF2" ||
+    kdf.hash !== "SHA-256" ||
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations <= 0 ||
+    kdf.iterations > KEY_FILE_KDF.iterations
+  ) {
+    throw new Error("Key file uses unsupported KDF parameters");
+  }
+  if (typeof checksum !== "string" || checksum !== (await computeChecksum({ ...header, ciphertext }))) {
+    throw new Error("Key file is corrupted: checksum does not match");
+  }
+
+  let salt: Uint8Array<ArrayBuffer>;
+  let iv: Uint8Array<ArrayBuffer>;
+  let sealed: Uint8Array<ArrayBuffer>;
+  try {
+    salt = base64ToBytes(header.salt);
+    iv = base64ToBytes(header.iv);
+    sealed = base64ToBytes(ciphertext);
+  } catch {
+    throw new Error("Key file is corrupted: salt, IV or ciphertext is not valid base64");
+  }
+  if (salt.length !== SALT_BYTES || iv.length !== IV_BYTES) {
+    throw new Error("Key file is corrupted: salt or IV has the wrong length");
+  }
+
+  const key = await deriveFileKey(password, salt, kdf, ["decrypt"]);
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData: associatedData(header) }, key, sealed);
+  } catch {
+    throw new AuthenticationError("Wrong key file password");
+  }
+
+  let keys: unknown;
+  try {
+    keys = JSON.parse(utf8Decode(new Uint8Array(decrypted)));
+  } catch {
+    throw new Error("Key file is corrupted: decrypted keys are not valid JSON");
+  }
+  return parseKeyBundle({ ...header, keys });
+}
+
+async function deriveFileKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  kdf: KdfParams,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey("raw", utf8Encode(password.normalize("NFC")), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: kdf.iterations, hash: kdf.hash },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    usages
+  );
+}
+
+// Field order is fixed here rather than taken from the parsed JSON, so reordering keys in the file is harmless
+function associatedData(header: Omit<ProtectedKeyFile, "ciphertext" | "checksum">): Uint8Array<ArrayBuffer> {
+  const { version, securityMode, algorithms, timestamp, kdf, salt, iv } = header;
+  return utf8Encode(JSON.stringify([version, securityMode, algorithms, timestamp, kdf.name, kdf.hash, kdf.iterations, salt, iv]));
+}
+
+async function computeChecksum(file: Omit<ProtectedKeyFile, "checksum">): Promise<string> {
+  const aad = associatedData(file);
+  const digest = await crypto.subtle.digest("SHA-256", utf8Encode(`${utf8Decode(aad)}.${file.ciphertext}`));
+  return bytesToHex(new Uint8Array(digest));
+}
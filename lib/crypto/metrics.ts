@@ -0,0 +1,91 @@
+import { PerformanceMetrics, PhaseTimings } from "./types";
+
+type TimedPhase = Exclude<keyof PhaseTimings, "cipher">;
+
+// Collects the time a cipher call spends deriving keys and converting between text and bytes.
+// Whatever is left of the call counts as cipher time, so phases must not be nested.
+export class PhaseTimer {
+  private spent: Record<TimedPhase, number> = { kdf: 0, encoding: 0 };
+
+  measure<T>(phase: TimedPhase, fn: () => T): T {
+    const start = performance.now();
+    const stop = () => {
+      this.spent[phase] += performance.now() - start;
+    };
+    const result = fn();
+    if (result instanceof Promise) {
+      return result.finally(stop) as T;
+    }
+    stop();
+    return result;
+  }
+
+  phases(total: number): PhaseTimings {
+    const { kdf, encoding } = this.spent;
+    return { kdf, cipher: Math.max(total - kdf - encoding, 0), encoding };
+  }
+}
+
+// Ciphers time their phases only when the pipeline passes a timer
+export function timePhase<T>(timer: PhaseTimer | undefined, phase: TimedPhase, fn: () => T): T {
+  return timer ? timer.measure(phase, fn) : fn();
+}
+
+export function buildMetrics(
+  phases: PhaseTimings,
+  dataSize: number,
+  outputSize: number,
+  // Defaults to the sum of the phases
+  totalTime: number = phases.kdf + phases.cipher + phases.encoding
+): PerformanceMetrics {
+  const encryptionTime = Math.max(totalTime, 0.001); // Minimum 0.001ms to avoid division by zero
+  return {
+    encryptionTime,
+    phases,
+    dataSize,
+    outputSize,
+    expansionRatio: dataSize > 0 ? outputSize / dataSize : 1,
+    throughput: dataSize / (encryptionTime / 1000), // bytes per second
+  };
+}
+
+// A whole pipeline run: the layers' phases add up, plus whatever the pipeline timed around them
+// (sealing or opening the envelope), and the sizes run from the pipeline's input to its output
+export function combineMetrics(
+  layers: PerformanceMetrics[],
+  pipeline: PhaseTimer,
+  dataSize: number,
+  outputSize: number
+): PerformanceMetrics {
+  const phases = layers.reduce(
+    (sum, layer) => ({
+      kdf: sum.kdf + layer.phases.kdf,
+      cipher: sum.cipher + layer.phases.cipher,
+      encoding: sum.encoding + layer.phases.encoding,
+    }),
+    pipeline.phases(0)
+  );
+  return buildMetrics(phases, dataSize, outputSize);
+}
+
+// UTF-8 size of text, counted without encoding it
+export function byteLength(value: string | Uint8Array): number {
+  if (typeof value !== "string") {
+    return value.length;
+  }
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && (value.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,162 @@
+import CryptoJS from "crypto-js";
+import { cbc, ctr } from "@noble/ciphers/aes.js";
+import { utf8Encode, bytesToBase64, base64ToBytes, removePkcs7Padding } from "./encoding";
+import { bytesToWordArray, wordArrayToBytes } from "./word-array";
+
+export type OpenSslCipher =
+  | "aes-128-cbc"
+  | "aes-192-cbc"
+  | "aes-256-cbc"
+  | "aes-128-ctr"
+  | "aes-192-ctr"
+  | "aes-256-ctr"
+  | "bf-cbc";
+
+export const OPENSSL_CIPHERS: { value: OpenSslCipher; label: string }[] = [
+  { value: "aes-256-cbc", label: "AES-256-CBC" },
+  { value: "aes-192-cbc", label: "AES-192-CBC" },
+  { value: "aes-128-cbc", label: "AES-128-CBC" },
+  { value: "aes-256-ctr", label: "AES-256-CTR" },
+  { value: "aes-192-ctr", label: "AES-192-CTR" },
+  { value: "aes-128-ctr", label: "AES-128-CTR" },
+  { value: "bf-cbc", label: "Blowfish-CBC (needs -provider legacy on OpenSSL 3)" },
+];
+
+// The `openssl enc -pbkdf2` default
+export const OPENSSL_DEFAULT_ITERATIONS = 10000;
+
+// "Salted__" || 8-byte salt || ciphertext
+const MAGIC = utf8Encode("Salted__");
+const SALT_BYTES = 8;
+
+const CIPHER_PARAMS: Record<OpenSslCipher, { keyBytes: number; ivBytes: number }> = {
+  "aes-128-cbc": { keyBytes: 16, ivBytes: 16 },
+  "aes-192-cbc": { keyBytes: 24, ivBytes: 16 },
+  "aes-256-cbc": { keyBytes: 32, ivBytes: 16 },
+  "aes-128-ctr": { keyBytes: 16, ivBytes: 16 },
+  "aes-192-ctr": { keyBytes: 24, ivBytes: 16 },
+  "aes-256-ctr": { keyBytes: 32, ivBytes: 16 },
+  "bf-cbc": { keyBytes: 16, ivBytes: 8 },
+};
+
+export interface OpenSslOptions {
+  cipher?: OpenSslCipher;
+  iterations?: number;
+  // Fixed 8-byte salt for reproducible output; random otherwise
+  salt?: Uint8Array;
+}
+
+// Key and IV come out of one PBKDF2-HMAC-SHA256 call, as with `-pbkdf2 -md sha256`
+async function deriveKeyAndIv(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  cipher: OpenSslCipher,
+  iterations: number
+): Promise<{ key: Uint8Array; iv: Uint8Array }> {
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error("PBKDF2 iteration count must be a positive integer");
+  }
+  const { keyBytes, ivBytes } = CIPHER_PARAMS[cipher];
+  const baseKey = await crypto.subtle.importKey("raw", utf8Encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    (keyBytes + ivBytes) * 8
+  );
+  const derived = new Uint8Array(bits);
+  return { key: derived.subarray(0, keyBytes), iv: derived.subarray(keyBytes) };
+}
+
+// AES runs through @noble/ciphers because Chrome's WebCrypto has no AES-192. Blowfish goes
+// through crypto-js with the derived key and IV as WordArrays, which bypasses its passphrase KDF.
+function runCipher(cipher: OpenSslCipher, key: Uint8Array, iv: Uint8Array, data: Uint8Array, decrypt: boolean): Uint8Array {
+  if (cipher === "bf-cbc") {
+    if (decrypt) {
+      const params = CryptoJS.lib.CipherParams.create({ ciphertext: bytesToWordArray(data) });
+      // crypto-js strips padding without checking it, so the padding is removed here instead
+      const options = { iv: bytesToWordArray(iv), mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.NoPadding };
+      return removePkcs7Padding(wordArrayToBytes(CryptoJS.Blowfish.decrypt(params, bytesToWordArray(key), options)), 8);
+    }
+    const options = { iv: bytesToWordArray(iv), mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 };
+    return wordArrayToBytes(CryptoJS.Blowfish.encrypt(bytesToWordArray(data), bytesToWordArray(key), options).ciphertext);
+  }
+  const aes = cipher.endsWith("-ctr") ? ctr(key, iv) : cbc(key, iv);
+  return decrypt ? aes.decrypt(data) : aes.encrypt(data);
+}
+
+// Output is byte-for-byte what `openssl enc -<cipher> -pbkdf2 -iter N -md sha256` writes
+export async function opensslEncrypt(
+  data: Uint8Array,
+  password: string,
+  { cipher = "aes-256-cbc", iterations = OPENSSL_DEFAULT_ITERATIONS, salt }: OpenSslOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (salt && salt.length !== SALT_BYTES) {
+    throw new Error(`OpenSSL salt must be ${SALT_BYTES} bytes`);
+  }
+  const saltBytes = salt ? new Uint8Array(salt) : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const { key, iv } = await deriveKeyAndIv(password, saltBytes, cipher, iterations);
+
+  let encrypted: Uint8Array;
+  try {
+    encrypted = runCipher(cipher, key, iv, data, false);
+  } catch (error) {
+    throw new Error(`OpenSSL ${cipher} encryption failed: ${error}`);
+  }
+
+  const output = new Uint8Array(MAGIC.length + SALT_BYTES + encrypted.length);
+  output.set(MAGIC);
+  output.set(saltBytes, MAGIC.length);
+  output.set(encrypted, MAGIC.length + SALT_BYTES);
+  return output;
+}
+
+// CTR has no padding to check, so a wrong password there yields garbage instead of an error
+export async function opensslDecrypt(
+  data: Uint8Array,
+  password: string,
+  { cipher = "aes-256-cbc", iterations = OPENSSL_DEFAULT_ITERATIONS }: Omit<OpenSslOptions, "salt"> = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (!isOpenSslSalted(data)) {
+    throw new Error('Not OpenSSL salted data: missing "Salted__" header');
+  }
+  const salt = data.slice(MAGIC.length, MAGIC.length + SALT_BYTES);
+  const { key, iv } = await deriveKeyAndIv(password, salt, cipher, iterations);
+
+  let decrypted: Uint8Array;
+  try {
+    decrypted = runCipher(cipher, key, iv, data.subarray(MAGIC.length + SALT_BYTES), true);
+  } catch (error) {
+    throw new Error(`OpenSSL ${cipher} decryption failed (wrong password, cipher or iteration count?): ${error}`);
+  }
+  return new Uint8Array(decrypted);
+}
+
+export function isOpenSslSalted(data: Uint8Array): boolean {
+  return data.length >= MAGIC.length + SALT_BYTES && MAGIC.every((byte, i) => data[i] === byte);
+}
+
+// `-a` output: base64 in 64-character lines, each ending with a newline
+export function toOpenSslBase64(data: Uint8Array): string {
+  return (bytesToBase64(data).match(/.{1,64}/g) ?? []).map((line) => `${line}\n`).join("");
+}
+
+export function fromOpenSslBase64(text: string): Uint8Array<ArrayBuffer> {
+  return base64ToBytes(text.replace(/\s+/g, ""));
+}
+
+// The matching CLI invocation. No -S: OpenSSL 3 then leaves out the "Salted__" header.
+export function opensslCommand(
+  cipher: OpenSslCipher,
+  iterations: number,
+  { decrypt = false, base64 = false }: { decrypt?: boolean; base64?: boolean } = {}
+): string {
+  return [
+    "openssl enc",
+    `-${cipher}`,
+    ...(cipher === "bf-cbc" ? ["-provider legacy -provider default"] : []),
+    ...(decrypt ? ["-d"] : []),
+    `-pbkdf2 -iter ${iterations} -md sha256`,
+    ...(base64 ? ["-a"] : []),
+    "-in INPUT -out OUTPUT",
+  ].join(" ");
+}
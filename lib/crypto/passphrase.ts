@@ -0,0 +1,87 @@
+import type { EncryptionManager } from "./encryption-manager";
+import { CipherAlgorithm, SecurityMode, PassphraseParams, KdfParams } from "./types";
+import { createDerivedSource } from "./random";
+import { utf8Encode, bytesToHex, hexToBytes } from "./encoding";
+
+// Prefix for the per-layer domain separation label
+const DOMAIN_LABEL = "super-cipher/layer-key/v1";
+const SALT_BYTES = 16;
+
+const PASSPHRASE_ITERATIONS: Record<SecurityMode, number> = {
+  high: 600000,
+  balanced: 310000,
+  lightweight: 100000,
+};
+
+// Passphrase parameters are read from the file being decrypted, so only ones createParams can
+// produce are accepted; a crafted iteration count would keep PBKDF2 running indefinitely
+export function isSupportedPassphraseParams(params: PassphraseParams | undefined): boolean {
+  const iterations = Object.values(PASSPHRASE_ITERATIONS);
+  return (
+    params?.kdf?.name === "PBKDF2" &&
+    params.kdf.hash === "SHA-256" &&
+    Number.isInteger(params.kdf.iterations) &&
+    params.kdf.iterations >= Math.min(...iterations) &&
+    params.kdf.iterations <= Math.max(...iterations) &&
+    typeof params.salt === "string" &&
+    new RegExp(`^[0-9a-f]{${SALT_BYTES * 2}}$`, "i").test(params.salt)
+  );
+}
+
+export class PassphraseKeyDerivation {
+  constructor(private manager: EncryptionManager) {}
+
+  private getKdfParams(mode: SecurityMode): KdfParams {
+    return { name: "PBKDF2", hash: "SHA-256", iterations: PASSPHRASE_ITERATIONS[mode] };
+  }
+
+  // Fresh parameters for a new encryption; the salt is stored in the ciphertext envelope
+  createParams(mode: SecurityMode): PassphraseParams {
+    return {
+      kdf: this.getKdfParams(mode),
+      salt: bytesToHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+    };
+  }
+
+  // Derives one key per layer (result[i] is layer i's key). Each layer reads its own HMAC stream
+  // labelled with its algorithm, so no two layers ever see related key material. Repeated
+  // algorithms get an occurrence suffix; first occurrences keep the original label.
+  async deriveKeys(
+    passphrase: string,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    params: PassphraseParams
+  ): Promise<string[]> {
+    if (passphrase.length === 0) {
+      throw new Error("Passphrase must not be empty");
+    }
+
+    const masterKey = await this.deriveMasterKey(passphrase, params);
+    const keys: string[] = [];
+    const occurrences: Record<string, number> = {};
+
+    for (const algorithm of algorithms) {
+      occurrences[algorithm] = (occurrences[algorithm] ?? 0) + 1;
+      const suffix = occurrences[algorithm] > 1 ? `/${occurrences[algorithm]}` : "";
+      const source = createDerivedSource(masterKey, `${DOMAIN_LABEL}/${mode}/${algorithm}${suffix}`);
+      keys.push(await this.manager.generateKey(algorithm, mode, source));
+    }
+
+    return keys;
+  }
+
+  private async deriveMasterKey(passphrase: string, params: PassphraseParams): Promise<Uint8Array> {
+    if (!isSupportedPassphraseParams(params)) {
+      throw new Error("Unsupported passphrase parameters: the ciphertext is corrupted or was not written by this app");
+    }
+    const baseKey = await crypto.subtle.importKey("raw", utf8Encode(passphrase.normalize("NFC")), "PBKDF2", false, [
+      "deriveBits",
+    ]);
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", salt: hexToBytes(params.salt), iterations: params.kdf.iterations, hash: "SHA-256" },
+      baseKey,
+      256
+    );
+    return new Uint8Array(bits);
+  }
+}
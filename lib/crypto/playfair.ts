@@ -0,0 +1,183 @@
+import { RandomSource, secureRandom, shuffle } from "./random";
+import { utf8Encode, utf8Decode } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// Classic is the textbook 5×5 square: letters only, J merged into I, X fillers that stay in the
+// decrypted text. Base64 mode uses an 8×8 square of the base64 alphabet so every layer's output can
+// go through it: other characters keep their place, and doubled or lone symbols pass through
+// (a pair of distinct symbols never enciphers to a double, so decryption can tell them apart).
+export type PlayfairMode = "classic" | "base64";
+
+export interface PlayfairKey {
+  mode: PlayfairMode;
+  // Deduplicated and followed by the rest of the alphabet to fill the square
+  keyword: string;
+}
+
+const ALPHABETS: Record<PlayfairMode, string> = {
+  classic: "ABCDEFGHIKLMNOPQRSTUVWXYZ",
+  base64: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/",
+};
+const CLASSIC_PREFIX = "classic:";
+
+export class PlayfairCipher {
+  // A random square: the keyword is the whole alphabet, shuffled
+  generateKey(mode: PlayfairMode = "base64", source: RandomSource = secureRandom): PlayfairKey {
+    return { mode, keyword: shuffle([...ALPHABETS[mode]], source).join("") };
+  }
+
+  keyToString(key: PlayfairKey): string {
+    return key.mode === "classic" ? CLASSIC_PREFIX + key.keyword : key.keyword;
+  }
+
+  stringToKey(keyString: string): PlayfairKey {
+    return keyString.startsWith(CLASSIC_PREFIX)
+      ? { mode: "classic", keyword: keyString.substring(CLASSIC_PREFIX.length) }
+      : { mode: "base64", keyword: keyString };
+  }
+
+  validateKey(key: PlayfairKey): void {
+    const alphabet = ALPHABETS[key.mode];
+    const symbols = [...this.normalize(key.keyword, key.mode)];
+    if (symbols.length === 0 || symbols.some((symbol) => !alphabet.includes(symbol))) {
+      throw new Error(
+        key.mode === "classic"
+          ? "Invalid Playfair key: the keyword must contain letters A-Z only"
+          : "Invalid Playfair key: the keyword must use A-Z, a-z, 0-9, + and / only"
+      );
+    }
+  }
+
+  // Classic keywords are case-insensitive, may contain spaces and spell J as I
+  private normalize(text: string, mode: PlayfairMode): string {
+    return mode === "classic" ? text.toUpperCase().replace(/J/g, "I").replace(/\s+/g, "") : text;
+  }
+
+  square(key: PlayfairKey): string {
+    return [...new Set(this.normalize(key.keyword, key.mode) + ALPHABETS[key.mode])].join("");
+  }
+
+  encrypt(plaintext: string, key: PlayfairKey, timer?: PhaseTimer): string {
+    this.validateKey(key);
+    return key.mode === "classic" ? this.encryptClassic(plaintext, key) : this.transformText(plaintext, key, 1, timer);
+  }
+
+  decrypt(ciphertext: string, key: PlayfairKey, timer?: PhaseTimer): string {
+    this.validateKey(key);
+    return key.mode === "classic" ? this.decryptClassic(ciphertext, key) : this.transformText(ciphertext, key, -1, timer);
+  }
+
+  // Base64 mode works on the ASCII bytes directly; classic mode reads and writes ASCII letters
+  encryptBytes(data: Uint8Array, key: PlayfairKey): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    if (key.mode === "base64") {
+      return this.transformBytes(data, key, 1);
+    }
+    return Uint8Array.from(this.encryptClassic(this.latin1(data), key), (c) => c.charCodeAt(0));
+  }
+
+  decryptBytes(data: Uint8Array, key: PlayfairKey): Uint8Array<ArrayBuffer> {
+    this.validateKey(key);
+    if (key.mode === "base64") {
+      return this.transformBytes(data, key, -1);
+    }
+    return Uint8Array.from(this.decryptClassic(this.latin1(data), key), (c) => c.charCodeAt(0));
+  }
+
+  private latin1(data: Uint8Array): string {
+    let text = "";
+    for (let i = 0; i < data.length; i++) {
+      text += String.fromCharCode(data[i]);
+    }
+    return text;
+  }
+
+  // Same row: shift along it; same column: shift down it; otherwise swap columns.
+  // `direction` is 1 to encrypt and -1 to decrypt.
+  private transformPair(a: number, b: number, width: number, direction: number): [number, number] {
+    const rowA = Math.floor(a / width);
+    const colA = a % width;
+    const rowB = Math.floor(b / width);
+    const colB = b % width;
+    const wrap = (value: number) => (value + width) % width;
+    if (rowA === rowB) {
+      return [rowA * width + wrap(colA + direction), rowB * width + wrap(colB + direction)];
+    }
+    if (colA === colB) {
+      return [wrap(rowA + direction) * width + colA, wrap(rowB + direction) * width + colB];
+    }
+    return [rowA * width + colB, rowB * width + colA];
+  }
+
+  private transformSymbols(symbols: number[], width: number, direction: number): number[] {
+    const output = [...symbols];
+    for (let i = 0; i + 1 < symbols.length; i += 2) {
+      if (symbols[i] !== symbols[i + 1]) {
+        [output[i], output[i + 1]] = this.transformPair(symbols[i], symbols[i + 1], width, direction);
+      }
+    }
+    return output;
+  }
+
+  private transformBytes(data: Uint8Array, key: PlayfairKey, direction: number): Uint8Array<ArrayBuffer> {
+    const square = this.square(key);
+    const indexOf = new Int8Array(256).fill(-1);
+    for (let i = 0; i < square.length; i++) {
+      indexOf[square.charCodeAt(i)] = i;
+    }
+    const positions: number[] = [];
+    const symbols: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+      const index = indexOf[data[i]];
+      if (index >= 0) {
+        positions.push(i);
+        symbols.push(index);
+      }
+    }
+    const output = Uint8Array.from(data);
+    this.transformSymbols(symbols, 8, direction).forEach((symbol, i) => {
+      output[positions[i]] = square.charCodeAt(symbol);
+    });
+    return output;
+  }
+
+  // Only ASCII symbols change, so non-ASCII text stays valid UTF-8
+  private transformText(text: string, key: PlayfairKey, direction: number, timer?: PhaseTimer): string {
+    const output = this.transformBytes(timePhase(timer, "encoding", () => utf8Encode(text)), key, direction);
+    return timePhase(timer, "encoding", () => utf8Decode(output));
+  }
+
+  private encryptClassic(plaintext: string, key: PlayfairKey): string {
+    const letters = this.normalize(plaintext, "classic").replace(/[^A-Z]/g, "");
+    // A filler splits doubled letters and completes the last pair; Q stands in when the letter is X
+    let prepared = "";
+    for (let i = 0; i < letters.length; ) {
+      const first = letters[i];
+      const second = letters[i + 1];
+      if (second === undefined || second === first) {
+        prepared += first + (first === "X" ? "Q" : "X");
+        i += 1;
+      } else {
+        prepared += first + second;
+        i += 2;
+      }
+    }
+    return this.transformLetters(prepared, key, 1);
+  }
+
+  private decryptClassic(ciphertext: string, key: PlayfairKey): string {
+    const letters = ciphertext.toUpperCase().replace(/[^A-Z]/g, "");
+    if (letters.length % 2 !== 0 || letters.includes("J")) {
+      throw new Error("Playfair decryption failed: not a classic Playfair ciphertext");
+    }
+    return this.transformLetters(letters, key, -1);
+  }
+
+  private transformLetters(letters: string, key: PlayfairKey, direction: number): string {
+    const square = this.square(key);
+    const symbols = [...letters].map((letter) => square.indexOf(letter));
+    return this.transformSymbols(symbols, 5, direction)
+      .map((symbol) => square[symbol])
+      .join("");
+  }
+}
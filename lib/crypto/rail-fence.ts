@@ -0,0 +1,64 @@
+import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom } from "./random";
+import { transposeText, transposeBytes } from "./transposition";
+
+// Writes the input in a zigzag across `rails` rows and reads it off row by row
+export class RailFenceCipher {
+  getRailRange(mode: SecurityMode): { min: number; max: number } {
+    switch (mode) {
+      case "high":
+        return { min: 10, max: 20 };
+      case "balanced":
+        return { min: 5, max: 10 };
+      case "lightweight":
+        return { min: 3, max: 5 };
+    }
+  }
+
+  generateKey(mode: SecurityMode, source: RandomSource = secureRandom): number {
+    const { min, max } = this.getRailRange(mode);
+    return min + randomInt(max - min + 1, source);
+  }
+
+  formatKey(rails: number): string {
+    return `RAILS-${rails}`;
+  }
+
+  parseKey(key: string): number {
+    if (!/^RAILS-\d+$/.test(key)) {
+      throw new Error("Invalid Rail Fence key format: must be RAILS-N where N is a number");
+    }
+    const rails = parseInt(key.substring("RAILS-".length));
+    if (rails < 2) {
+      throw new Error("Invalid Rail Fence key: at least 2 rails are needed");
+    }
+    return rails;
+  }
+
+  // Positions grouped by rail; the zigzag repeats every 2·(rails - 1) positions
+  private order(length: number, rails: number): number[] {
+    const cycle = 2 * (rails - 1);
+    const byRail: number[][] = Array.from({ length: rails }, () => []);
+    for (let i = 0; i < length; i++) {
+      const phase = i % cycle;
+      byRail[phase < rails ? phase : cycle - phase].push(i);
+    }
+    return byRail.flat();
+  }
+
+  encrypt(plaintext: string, rails: number): string {
+    return transposeText(plaintext, (length) => this.order(length, rails), false);
+  }
+
+  decrypt(ciphertext: string, rails: number): string {
+    return transposeText(ciphertext, (length) => this.order(length, rails), true);
+  }
+
+  encryptBytes(data: Uint8Array, rails: number): Uint8Array<ArrayBuffer> {
+    return transposeBytes(data, (length) => this.order(length, rails), false);
+  }
+
+  decryptBytes(data: Uint8Array, rails: number): Uint8Array<ArrayBuffer> {
+    return transposeBytes(data, (length) => this.order(length, rails), true);
+  }
+}
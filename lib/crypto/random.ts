@@ -0,0 +1,60 @@
+import forge from "node-forge";
+
+// Produces `length` random bytes; key generators accept one so keys can be derived deterministically
+export type RandomSource = (length: number) => Uint8Array;
+
+// The default source for key generation: the platform CSPRNG
+export const secureRandom: RandomSource = (length) => crypto.getRandomValues(new Uint8Array(length));
+
+// Uniform integer in [0, max) by rejection sampling, avoiding modulo bias
+export function randomInt(max: number, source: RandomSource): number {
+  if (max <= 0 || max > 0x100000000) {
+    throw new Error(`randomInt: max out of range (${max})`);
+  }
+  const limit = Math.floor(0x100000000 / max) * max;
+  while (true) {
+    const bytes = source(4);
+    const value = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    if (value < limit) {
+      return value % max;
+    }
+  }
+}
+
+// Fisher-Yates shuffle of a copy of `items`
+export function shuffle<T>(items: readonly T[], source: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, source);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Deterministic byte stream: HMAC-SHA256(seed, info || counter) blocks.
+// `info` gives each consumer (layer) its own independent stream from the same seed.
+export function createDerivedSource(seed: Uint8Array, info: string): RandomSource {
+  const seedBytes = forge.util.binary.raw.encode(seed);
+  let counter = 0;
+  let buffer = new Uint8Array(0);
+
+  return (length: number) => {
+    while (buffer.length < length) {
+      const hmac = forge.hmac.create();
+      hmac.start("sha256", seedBytes);
+      hmac.update(forge.util.encodeUtf8(info));
+      hmac.update(String.fromCharCode((counter >>> 24) & 0xff, (counter >>> 16) & 0xff, (counter >>> 8) & 0xff, counter & 0xff));
+      counter++;
+
+      const block = forge.util.binary.raw.decode(hmac.digest().getBytes());
+      const next = new Uint8Array(buffer.length + block.length);
+      next.set(buffer);
+      next.set(block, buffer.length);
+      buffer = next;
+    }
+
+    const output = buffer.slice(0, length);
+    buffer = buffer.slice(length);
+    return output;
+  };
+}
@@ -0,0 +1,68 @@
+import { CipherAlgorithm, SecurityMode, LayerCipherOptions, KeyEstimate } from "./types";
+import { RandomSource } from "./random";
+
+// Everything a layer needs besides its input and key
+export interface CipherContext extends LayerCipherOptions {
+  mode: SecurityMode;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+// One descriptor per algorithm: the manager, envelope validation and the UI all read from it
+export interface CipherDescriptor {
+  id: CipherAlgorithm;
+  name: string;
+  icon: string;
+  // Tailwind gradient stops used for the algorithm's badge
+  color: string;
+  // Text the cipher transforms and text it produces; other characters pass through or are encoded
+  inputAlphabet: string;
+  outputAlphabet: string;
+  describeKey(mode: SecurityMode): string;
+  generateKey(mode: SecurityMode, source?: RandomSource): MaybePromise<string>;
+  // Throws with a user-facing message when the key cannot be used by this cipher
+  validateKey(key: string): void;
+  // Effective entropy and known weaknesses of a key that passed validateKey
+  analyzeKey(key: string): KeyEstimate;
+  encrypt(plaintext: string, key: string, context: CipherContext): MaybePromise<string>;
+  decrypt(ciphertext: string, key: string, context: CipherContext): MaybePromise<string>;
+  encryptBytes(data: Uint8Array<ArrayBuffer>, key: string, context: CipherContext): MaybePromise<Uint8Array<ArrayBuffer>>;
+  decryptBytes(data: Uint8Array<ArrayBuffer>, key: string, context: CipherContext): MaybePromise<Uint8Array<ArrayBuffer>>;
+}
+
+export class CipherRegistry {
+  private descriptors = new Map<string, CipherDescriptor>();
+
+  constructor(descriptors: CipherDescriptor[] = []) {
+    descriptors.forEach((descriptor) => this.register(descriptor));
+  }
+
+  register(descriptor: CipherDescriptor): this {
+    if (this.descriptors.has(descriptor.id)) {
+      throw new Error(`Cipher already registered: ${descriptor.id}`);
+    }
+    this.descriptors.set(descriptor.id, descriptor);
+    return this;
+  }
+
+  has(id: string): id is CipherAlgorithm {
+    return this.descriptors.has(id);
+  }
+
+  get(id: string): CipherDescriptor {
+    const descriptor = this.descriptors.get(id);
+    if (!descriptor) {
+      throw new Error(`Unknown algorithm: ${id}`);
+    }
+    return descriptor;
+  }
+
+  // In registration order
+  list(): CipherDescriptor[] {
+    return [...this.descriptors.values()];
+  }
+
+  ids(): CipherAlgorithm[] {
+    return this.list().map((descriptor) => descriptor.id);
+  }
+}
@@ -1,7 +1,21 @@
 import forge from "node-forge";
 import { SecurityMode } from "./types";
+import { AESCipher } from "./aes";
+import { utf8Encode, utf8Decode, bytesToBase64, base64ToBytes } from "./encoding";
+import { RandomSource } from "./random";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// Hybrid output: HYBRID_PREFIX + base64(OAEP-wrapped content key) + ":" + base64(AES-GCM payload).
+// Legacy chunked output always starts with a decimal chunk length, so the prefix is unambiguous.
+const HYBRID_PREFIX = "hyb1:";
+const CONTENT_KEY_BYTES = 32;
+// RSA-PSS salt length; matches the SHA-256 digest length, as RFC 8017 recommends
+export const PSS_SALT_BYTES = 32;
 
 export class RSACipher {
+  private aes = new AESCipher();
+
+
   private getKeySize(mode: SecurityMode): number {
     switch (mode) {
       case "high":
@@ -13,13 +27,21 @@ export class RSACipher {
     }
   }
 
-  async generateKeyPair(mode: SecurityMode = "balanced"): Promise<{ publicKey: string; privateKey: string }> {
+  async generateKeyPair(
+    mode: SecurityMode = "balanced",
+    source?: RandomSource
+  ): Promise<{ publicKey: string; privateKey: string }> {
     const keySize = this.getKeySize(mode);
 
-    // Use workers: 2 for non-blocking generation
+    // A derived source must drive prime search on a single thread: parallel workers
+    // scan different ranges and would make the resulting key pair non-deterministic.
+    const options: forge.pki.rsa.GenerateKeyPairOptions = source
+      ? { bits: keySize, prng: { getBytesSync: (count: number) => forge.util.binary.raw.encode(source(count)) } }
+      : { bits: keySize, workers: 2 }; // Use workers: 2 for non-blocking generation
+
     return new Promise((resolve, reject) => {
       forge.pki.rsa.generateKeyPair(
-        { bits: keySize, workers: 2 },
+        options,
         (err, keypair) => {
           if (err) {
             reject(err);
@@ -34,37 +56,186 @@ export class RSACipher {
     });
   }
 
-  encrypt(plaintext: string, publicKeyPem: string): string {
+  private getOaepOptions() {
+    return {
+      md: forge.md.sha256.create(),
+      mgf1: {
+        md: forge.md.sha1.create(),
+      },
+    };
+  }
+
+  private createPssScheme() {
+    return forge.pss.create({
+      md: forge.md.sha256.create(),
+      mgf: forge.mgf.mgf1.create(forge.md.sha256.create()),
+      saltLength: PSS_SALT_BYTES,
+    });
+  }
+
+  private digest(data: Uint8Array): forge.md.MessageDigest {
+    const md = forge.md.sha256.create();
+    md.update(forge.util.binary.raw.encode(data));
+    return md;
+  }
+
+  // RSA-PSS with SHA-256 and MGF1-SHA-256
+  sign(data: Uint8Array, privateKeyPem: string): Uint8Array<ArrayBuffer> {
     try {
-      const publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
-
-      // Get max chunk size for RSA (key_size/8 - 42 for OAEP padding)
-      const keySize = publicKey.n.bitLength();
-      const maxChunkSize = Math.floor(keySize / 8) - 42;
-
-      // Split plaintext into chunks
-      const chunks: string[] = [];
-      for (let i = 0; i < plaintext.length; i += maxChunkSize) {
-        const chunk = plaintext.substring(i, i + maxChunkSize);
-        const encryptedChunk = publicKey.encrypt(chunk, "RSA-OAEP", {
-          md: forge.md.sha256.create(),
-          mgf1: {
-            md: forge.md.sha1.create(),
-          },
-        });
-        const base64Chunk = forge.util.encode64(encryptedChunk);
-        // Store chunk length + chunk data with unique separator
-        chunks.push(base64Chunk.length + ":" + base64Chunk);
-      }
+      const privateKey = forge.pki.privateKeyFromPem(privateKeyPem);
+      const signature = privateKey.sign(this.digest(data), this.createPssScheme());
+      return new Uint8Array(forge.util.binary.raw.decode(signature));
+    } catch (error) {
+      throw new Error(`RSA signing failed: ${error}`);
+    }
+  }
 
-      // Join chunks with unique separator that won't appear in base64
-      return chunks.join("|RSA|");
+  // False for a signature that does not match; throws only when the public key cannot be read
+  verify(data: Uint8Array, signature: Uint8Array, publicKeyPem: string): boolean {
+    let publicKey: forge.pki.rsa.PublicKey;
+    try {
+      publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+    } catch (error) {
+      throw new Error(`Invalid RSA public key: ${error}`);
+    }
+    try {
+      return publicKey.verify(
+        this.digest(data).digest().getBytes(),
+        forge.util.binary.raw.encode(signature),
+        this.createPssScheme()
+      );
+    } catch {
+      // forge throws on malformed encodings (wrong length, bad padding) instead of returning false
+      return false;
+    }
+  }
+
+  // SHA-256 over the SubjectPublicKeyInfo, as colon-separated hex
+  getFingerprint(publicKeyPem: string): string {
+    const publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+    return forge.pki.getPublicKeyFingerprint(publicKey, {
+      md: forge.md.sha256.create(),
+      type: "SubjectPublicKeyInfo",
+      encoding: "hex",
+      delimiter: ":",
+    });
+  }
+
+  // RSA-OAEP wraps a random AES-256 content key; the payload itself goes through AES-GCM
+  // Wrapping and unwrapping the content key is key establishment, so it counts as KDF time
+  private async seal(
+    data: Uint8Array<ArrayBuffer>,
+    publicKeyPem: string,
+    associatedData: string,
+    timer?: PhaseTimer
+  ): Promise<{ wrappedKey: Uint8Array<ArrayBuffer>; payload: Uint8Array<ArrayBuffer> }> {
+    try {
+      const contentKey = crypto.getRandomValues(new Uint8Array(CONTENT_KEY_BYTES));
+      const wrappedKey = timePhase(timer, "kdf", () => {
+        const publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+        const wrapped = publicKey.encrypt(forge.util.binary.raw.encode(contentKey), "RSA-OAEP", this.getOaepOptions());
+        return new Uint8Array(forge.util.binary.raw.decode(wrapped));
+      });
+      const payload = await this.aes.sealWithRawKey(contentKey, data, associatedData);
+
+      return { wrappedKey, payload };
     } catch (error) {
       throw new Error(`RSA encryption failed: ${error}`);
     }
   }
 
-  decrypt(ciphertext: string, privateKeyPem: string): string {
+  private async open(
+    wrappedKey: Uint8Array,
+    payload: Uint8Array<ArrayBuffer>,
+    privateKeyPem: string,
+    associatedData: string,
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    let contentKey: Uint8Array<ArrayBuffer>;
+    try {
+      contentKey = timePhase(timer, "kdf", () => {
+        const privateKey = forge.pki.privateKeyFromPem(privateKeyPem);
+        const unwrapped = privateKey.decrypt(forge.util.binary.raw.encode(wrappedKey), "RSA-OAEP", this.getOaepOptions());
+        return new Uint8Array(forge.util.binary.raw.decode(unwrapped));
+      });
+    } catch (error) {
+      throw new Error(`RSA decryption failed: ${error}`);
+    }
+
+    return this.aes.openWithRawKey(contentKey, payload, associatedData);
+  }
+
+  async encrypt(
+    plaintext: string,
+    publicKeyPem: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<string> {
+    const data = timePhase(timer, "encoding", () => utf8Encode(plaintext));
+    const { wrappedKey, payload } = await this.seal(data, publicKeyPem, associatedData, timer);
+    return timePhase(timer, "encoding", () => HYBRID_PREFIX + bytesToBase64(wrappedKey) + ":" + bytesToBase64(payload));
+  }
+
+  async decrypt(
+    ciphertext: string,
+    privateKeyPem: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<string> {
+    if (!ciphertext.startsWith(HYBRID_PREFIX)) {
+      return this.decryptChunked(ciphertext, privateKeyPem);
+    }
+
+    const [wrappedKey, encodedPayload] = ciphertext.substring(HYBRID_PREFIX.length).split(":");
+    if (!wrappedKey || !encodedPayload) {
+      throw new Error("RSA decryption failed: Invalid hybrid ciphertext format");
+    }
+
+    const [wrappedBytes, payloadBytes] = timePhase(timer, "encoding", () => [
+      base64ToBytes(wrappedKey),
+      base64ToBytes(encodedPayload),
+    ]);
+    const plaintext = await this.open(wrappedBytes, payloadBytes, privateKeyPem, associatedData, timer);
+    return timePhase(timer, "encoding", () => utf8Decode(plaintext));
+  }
+
+  // Binary layout: wrapped key length (2 bytes, big-endian) || wrapped key || AES-GCM payload
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    publicKeyPem: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const { wrappedKey, payload } = await this.seal(data, publicKeyPem, associatedData, timer);
+    const output = new Uint8Array(2 + wrappedKey.length + payload.length);
+    output[0] = wrappedKey.length >>> 8;
+    output[1] = wrappedKey.length & 0xff;
+    output.set(wrappedKey, 2);
+    output.set(payload, 2 + wrappedKey.length);
+    return output;
+  }
+
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    privateKeyPem: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const wrappedLength = (data[0] << 8) | data[1];
+    if (data.length < 2 + wrappedLength) {
+      throw new Error("RSA decryption failed: ciphertext is truncated");
+    }
+    return this.open(
+      data.subarray(2, 2 + wrappedLength),
+      data.slice(2 + wrappedLength),
+      privateKeyPem,
+      associatedData,
+      timer
+    );
+  }
+
+  // Pre-hybrid format: raw RSA-OAEP over key_size/8 - 42 character chunks joined with |RSA|
+  private decryptChunked(ciphertext: string, privateKeyPem: string): string {
     try {
       const privateKey = forge.pki.privateKeyFromPem(privateKeyPem);
 
@@ -81,12 +252,7 @@ export class RSACipher {
 
         const chunk = chunkData.substring(separatorIndex + 1);
         const encrypted = forge.util.decode64(chunk);
-        const decrypted = privateKey.decrypt(encrypted, "RSA-OAEP", {
-          md: forge.md.sha256.create(),
-          mgf1: {
-            md: forge.md.sha1.create(),
-          },
-        });
+        const decrypted = privateKey.decrypt(encrypted, "RSA-OAEP", this.getOaepOptions());
         decryptedChunks.push(decrypted);
       }
 
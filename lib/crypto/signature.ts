@@ -0,0 +1,62 @@
+import { RSACipher, PSS_SALT_BYTES } from "./rsa";
+import { parseRsaKey } from "./ciphers/rsa";
+import { DetachedSignature, VerificationResult, FileMetadata } from "./types";
+import { bytesToBase64, base64ToBytes } from "./encoding";
+
+export const SIGNATURE_FORMAT = "super-cipher/signature";
+export const SIGNATURE_VERSION = 1;
+
+// Detached RSA-PSS signatures over raw message bytes, using the same key pairs as the RSA layer
+export class SignatureService {
+  constructor(private rsa: RSACipher = new RSACipher()) {}
+
+  // rsaKey is an RSA layer key: JSON holding both PEM halves
+  sign(data: Uint8Array, rsaKey: string, file?: FileMetadata): DetachedSignature {
+    const { publicKey, privateKey } = parseRsaKey(rsaKey, "decrypt");
+    return {
+      format: SIGNATURE_FORMAT,
+      version: SIGNATURE_VERSION,
+      algorithm: "RSA-PSS-SHA256",
+      saltLength: PSS_SALT_BYTES,
+      publicKey,
+      fingerprint: this.rsa.getFingerprint(publicKey),
+      signature: bytesToBase64(this.rsa.sign(data, privateKey)),
+      signedAt: Date.now(),
+      ...(file ? { file } : {}),
+    };
+  }
+
+  // A valid signature only proves the holder of signature.publicKey signed the data;
+  // pass the expected public key to also check who that is
+  verify(data: Uint8Array, signature: DetachedSignature, expectedPublicKey?: string): VerificationResult {
+    const fingerprint = this.rsa.getFingerprint(signature.publicKey);
+    return {
+      valid: this.rsa.verify(data, base64ToBytes(signature.signature), signature.publicKey),
+      fingerprint,
+      signedAt: signature.signedAt,
+      trustedKey: expectedPublicKey === undefined ? undefined : this.rsa.getFingerprint(expectedPublicKey) === fingerprint,
+    };
+  }
+}
+
+export function parseSignature(text: string): DetachedSignature {
+  let signature: Partial<DetachedSignature>;
+  try {
+    signature = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid signature: not a signature file");
+  }
+  if (signature?.format !== SIGNATURE_FORMAT) {
+    throw new Error("Invalid signature: not a signature file");
+  }
+  if (typeof signature.version !== "number" || signature.version > SIGNATURE_VERSION) {
+    throw new Error(`Unsupported signature version: ${signature.version}`);
+  }
+  if (signature.algorithm !== "RSA-PSS-SHA256" || signature.saltLength !== PSS_SALT_BYTES) {
+    throw new Error(`Unsupported signature algorithm: ${signature.algorithm}`);
+  }
+  if (typeof signature.publicKey !== "string" || typeof signature.signature !== "string") {
+    throw new Error("Invalid signature: missing public key or signature value");
+  }
+  return signature as DetachedSignature;
+}
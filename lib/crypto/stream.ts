@@ -0,0 +1,305 @@
+import { AESCipher } from "./aes";
+import { AuthenticationError } from "./errors";
+import { isSupportedPassphraseParams } from "./passphrase";
+import { SecurityMode, StreamHeader, FileMetadata, PassphraseParams } from "./types";
+import { utf8Encode, utf8Decode, bytesToHex, hexToBytes } from "./encoding";
+
+// Stream layout:
+//   MAGIC (4) || header length (4, BE) || header JSON || frames...
+//   frame = ciphertext length (4, BE) || AES-256-GCM(chunk) incl. 16-byte tag
+// Nonce = prefix (7) || chunk counter (4, BE) || final flag (1), as in the STREAM construction:
+// reordered, dropped or truncated chunks all fail authentication.
+export const STREAM_MAGIC = "SCXS";
+export const STREAM_VERSION = 1;
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const TAG_BYTES = 16;
+const MAX_HEADER_BYTES = 64 * 1024;
+// Frames are buffered whole, so a header may not ask for larger chunks than this
+const MAX_CHUNK_SIZE = 16 * DEFAULT_CHUNK_SIZE;
+
+export interface StreamProgress {
+  processedBytes: number;
+  totalBytes?: number;
+  chunkIndex: number;
+}
+
+export interface StreamOptions {
+  totalBytes?: number;
+  onProgress?: (progress: StreamProgress) => void;
+}
+
+// FIFO of byte chunks, so input is never concatenated into one large buffer
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length > 0) {
+      this.chunks.push(chunk);
+      this.length += chunk.length;
+    }
+  }
+
+  peek(count: number): Uint8Array<ArrayBuffer> {
+    return this.read(count, false);
+  }
+
+  take(count: number): Uint8Array<ArrayBuffer> {
+    return this.read(count, true);
+  }
+
+  private read(count: number, consume: boolean): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(count);
+    let offset = 0;
+    let index = 0;
+    while (offset < count) {
+      const chunk = this.chunks[index];
+      const needed = Math.min(count - offset, chunk.length);
+      output.set(chunk.subarray(0, needed), offset);
+      offset += needed;
+      if (consume) {
+        if (needed === chunk.length) {
+          this.chunks.shift();
+        } else {
+          this.chunks[0] = chunk.subarray(needed);
+        }
+      } else {
+        index++;
+      }
+    }
+    if (consume) {
+      this.length -= count;
+    }
+    return output;
+  }
+}
+
+function writeUint32(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+function readUint32(bytes: Uint8Array): number {
+  return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+}
+
+export function isStreamHeader(prefix: Uint8Array): boolean {
+  return prefix.length >= STREAM_MAGIC.length && utf8Decode(prefix.subarray(0, STREAM_MAGIC.length)) === STREAM_MAGIC;
+}
+
+export class StreamingCipher {
+  private aes = new AESCipher();
+
+  // Encrypts with the bundle's AES layer key; chunks are authenticated individually
+  createEncryptStream(
+    key: string,
+    mode: SecurityMode,
+    options: StreamOptions & { chunkSize?: number; file?: FileMetadata; passphrase?: PassphraseParams } = {}
+  ): TransformStream<Uint8Array, Uint8Array> {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const header: StreamHeader = {
+      version: STREAM_VERSION,
+      securityMode: mode,
+      chunkSize,
+      kdf: this.aes.getKdfParams(mode),
+      salt: bytesToHex(crypto.getRandomValues(new Uint8Array(16))),
+      noncePrefix: bytesToHex(crypto.getRandomValues(new Uint8Array(7))),
+      file: options.file,
+      passphrase: options.passphrase,
+    };
+    const headerBytes = utf8Encode(JSON.stringify(header));
+    const queue = new ByteQueue();
+    let cryptoKey: CryptoKey;
+    let chunkIndex = 0;
+    let processedBytes = 0;
+
+    const emitChunk = async (
+      controller: TransformStreamDefaultController<Uint8Array>,
+      chunk: Uint8Array<ArrayBuffer>,
+      isFinal: boolean
+    ) => {
+      const encrypted = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv: this.buildNonce(header.noncePrefix, chunkIndex, isFinal), additionalData: headerBytes },
+        cryptoKey,
+        chunk
+      );
+      controller.enqueue(writeUint32(encrypted.byteLength));
+      controller.enqueue(new Uint8Array(encrypted));
+
+      chunkIndex++;
+      processedBytes += chunk.length;
+      options.onProgress?.({ processedBytes, totalBytes: options.totalBytes, chunkIndex });
+    };
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      start: async (controller) => {
+        cryptoKey = await this.deriveStreamKey(key, header);
+        controller.enqueue(utf8Encode(STREAM_MAGIC));
+        controller.enqueue(writeUint32(headerBytes.length));
+        controller.enqueue(headerBytes);
+      },
+      transform: async (input, controller) => {
+        queue.push(input);
+        // Keep at least one byte back: only flush() knows which chunk is final
+        while (queue.length > chunkSize) {
+          await emitChunk(controller, queue.take(chunkSize), false);
+        }
+      },
+      flush: async (controller) => {
+        await emitChunk(controller, queue.take(queue.length), true);
+      },
+    });
+  }
+
+  // `header` resolves once the stream header has been parsed (before any plaintext is emitted)
+  createDecryptStream(
+    key: string | ((header: StreamHeader) => Promise<string>),
+    options: StreamOptions = {}
+  ): { stream: TransformStream<Uint8Array, Uint8Array>; header: Promise<StreamHeader> } {
+    const queue = new ByteQueue();
+    let header: StreamHeader | null = null;
+    let headerBytes: Uint8Array<ArrayBuffer>;
+    let cryptoKey: CryptoKey;
+    let pendingFrame: Uint8Array<ArrayBuffer> | null = null;
+    let chunkIndex = 0;
+    let processedBytes = 0;
+    let resolveHeader: (header: StreamHeader) => void;
+    let rejectHeader: (error: unknown) => void;
+    const headerPromise = new Promise<StreamHeader>((resolve, reject) => {
+      resolveHeader = resolve;
+      rejectHeader = reject;
+    });
+    // Callers that only await the stream must not see an unhandled rejection
+    headerPromise.catch(() => {});
+
+    const decryptFrame = async (
+      controller: TransformStreamDefaultController<Uint8Array>,
+      frame: Uint8Array<ArrayBuffer>,
+      isFinal: boolean
+    ) => {
+      let decrypted: ArrayBuffer;
+      try {
+        decrypted = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: this.buildNonce(header!.noncePrefix, chunkIndex, isFinal), additionalData: headerBytes },
+          cryptoKey,
+          frame
+        );
+      } catch {
+        throw new AuthenticationError(
+          `Stream chunk ${chunkIndex + 1} failed authentication: the key is wrong or the file was modified or truncated`
+        );
+      }
+      controller.enqueue(new Uint8Array(decrypted));
+
+      chunkIndex++;
+      processedBytes += frame.length;
+      options.onProgress?.({ processedBytes, totalBytes: options.totalBytes, chunkIndex });
+    };
+
+    const readHeader = async (): Promise<boolean> => {
+      const prefixLength = STREAM_MAGIC.length + 4;
+      if (queue.length < prefixLength) return false;
+
+      const prefix = queue.peek(prefixLength);
+      if (!isStreamHeader(prefix)) {
+        throw new Error("Not an encrypted stream: missing stream header");
+      }
+      const headerLength = readUint32(prefix.subarray(STREAM_MAGIC.length));
+      if (headerLength > MAX_HEADER_BYTES) {
+        throw new Error("Invalid stream header length");
+      }
+      if (queue.length < prefixLength + headerLength) return false;
+
+      queue.take(prefixLength);
+      headerBytes = queue.take(headerLength);
+      const parsed: StreamHeader = JSON.parse(utf8Decode(headerBytes));
+      if (parsed.version > STREAM_VERSION) {
+        throw new Error(`Unsupported stream version: ${parsed.version}`);
+      }
+      if (!this.isValidHeader(parsed)) {
+        throw new Error("Invalid stream header: the file is corrupted or was not written by this app");
+      }
+
+      header = parsed;
+      const streamKey = typeof key === "string" ? key : await key(parsed);
+      cryptoKey = await this.deriveStreamKey(streamKey, parsed);
+      resolveHeader(parsed);
+      return true;
+    };
+
+    return {
+      header: headerPromise,
+      stream: new TransformStream<Uint8Array, Uint8Array>({
+        transform: async (input, controller) => {
+          queue.push(input);
+          try {
+            if (!header && !(await readHeader())) return;
+
+            while (queue.length >= 4) {
+              const frameLength = readUint32(queue.peek(4));
+              if (frameLength < TAG_BYTES || frameLength > header!.chunkSize + TAG_BYTES) {
+                throw new Error("Invalid stream frame length: the file is corrupted");
+              }
+              if (queue.length < 4 + frameLength) break;
+
+              queue.take(4);
+              // Hold one frame back: the final frame is decrypted with the final flag in flush()
+              if (pendingFrame) {
+                await decryptFrame(controller, pendingFrame, false);
+              }
+              pendingFrame = queue.take(frameLength);
+            }
+          } catch (error) {
+            rejectHeader(error);
+            throw error;
+          }
+        },
+        flush: async (controller) => {
+          if (!header) {
+            const error = new Error("Encrypted stream ended before its header");
+            rejectHeader(error);
+            throw error;
+          }
+          if (!pendingFrame || queue.length > 0) {
+            throw new Error("Encrypted stream is truncated");
+          }
+          await decryptFrame(controller, pendingFrame, true);
+        },
+      }),
+    };
+  }
+
+  // The header is read from the file being decrypted, so everything that sizes buffers or work is bounded
+  private isValidHeader(header: StreamHeader): boolean {
+    return (
+      Number.isInteger(header.chunkSize) &&
+      header.chunkSize > 0 &&
+      header.chunkSize <= MAX_CHUNK_SIZE &&
+      this.aes.isSupportedKdf(header.kdf) &&
+      (header.passphrase === undefined || isSupportedPassphraseParams(header.passphrase)) &&
+      typeof header.noncePrefix === "string" &&
+      /^[0-9a-f]{14}$/i.test(header.noncePrefix) &&
+      typeof header.salt === "string" &&
+      /^[0-9a-f]{32}$/i.test(header.salt)
+    );
+  }
+
+  private buildNonce(prefixHex: string, counter: number, isFinal: boolean): Uint8Array<ArrayBuffer> {
+    const nonce = new Uint8Array(12);
+    nonce.set(hexToBytes(prefixHex));
+    nonce.set(writeUint32(counter), 7);
+    nonce[11] = isFinal ? 1 : 0;
+    return nonce;
+  }
+
+  private async deriveStreamKey(key: string, header: StreamHeader): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey("raw", utf8Encode(key), "PBKDF2", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt: hexToBytes(header.salt), iterations: header.kdf.iterations, hash: "SHA-256" },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+}
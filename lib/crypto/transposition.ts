@@ -0,0 +1,26 @@
+// Shared by the transposition ciphers: a key turns into a reading order for a given length,
+// where order[k] is the input position that becomes output position k
+
+export type TranspositionOrder = (length: number) => number[];
+
+function transpose<T>(items: ArrayLike<T>, order: number[], inverse: boolean): T[] {
+  const output = new Array<T>(items.length);
+  for (let k = 0; k < order.length; k++) {
+    if (inverse) {
+      output[order[k]] = items[k];
+    } else {
+      output[k] = items[order[k]];
+    }
+  }
+  return output;
+}
+
+// Moves whole code points, so any text survives and the output has the same length
+export function transposeText(text: string, order: TranspositionOrder, inverse: boolean): string {
+  const characters = [...text];
+  return transpose(characters, order(characters.length), inverse).join("");
+}
+
+export function transposeBytes(data: Uint8Array, order: TranspositionOrder, inverse: boolean): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(transpose(data, order(data.length), inverse));
+}
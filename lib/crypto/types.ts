@@ -1,6 +1,24 @@
+import type { PhaseTimer } from "./metrics";
+
 export type SecurityMode = "high" | "balanced" | "lightweight";
 
-export type CipherAlgorithm = "aes" | "rsa" | "hill" | "vigenere" | "blowfish" | "caesar";
+export type CipherAlgorithm =
+  | "aes"
+  | "rsa"
+  | "hill"
+  | "vigenere"
+  | "blowfish"
+  | "caesar"
+  | "x25519"
+  | "ed25519"
+  | "chacha20"
+  | "playfair"
+  | "affine"
+  | "railfence"
+  | "columnar"
+  | "enigma"
+  | "beaufort"
+  | "autokey";
 
 export interface EncryptionConfig {
   algorithm: CipherAlgorithm;
@@ -14,13 +32,61 @@ export interface EncryptionLayer {
   order: number;
 }
 
+export interface KdfParams {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+}
+
+// Stored alongside passphrase-mode ciphertexts so the same layer keys can be re-derived
+export interface PassphraseParams {
+  kdf: KdfParams;
+  salt: string;
+}
+
+// Original file name and MIME type, restored when an encrypted file is decrypted
+export interface FileMetadata {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface EnvelopeHeader {
+  version: number;
+  layers: CipherAlgorithm[];
+  securityMode: SecurityMode;
+  kdf: KdfParams;
+  encoding: "utf8" | "binary";
+  passphrase?: PassphraseParams;
+  file?: FileMetadata;
+}
+
+// Header of a chunked stream (large files); the stream key is derived from the AES layer key
+export interface StreamHeader {
+  version: number;
+  securityMode: SecurityMode;
+  chunkSize: number;
+  kdf: KdfParams;
+  salt: string;
+  noncePrefix: string;
+  file?: FileMetadata;
+  passphrase?: PassphraseParams;
+}
+
+// Per-call options threaded from the layer pipeline down to individual ciphers
+export interface LayerCipherOptions {
+  kdf?: KdfParams;
+  associatedData?: string;
+  timer?: PhaseTimer;
+}
+
 export interface LayeredEncryptionConfig {
   layers: CipherAlgorithm[];
   securityMode: SecurityMode;
 }
 
-export interface EncryptionResult {
-  encrypted: string;
+export interface EncryptionResult<T = string> {
+  encrypted: T;
   key: string;
   algorithm: CipherAlgorithm;
   timestamp: number;
@@ -28,28 +94,130 @@ export interface EncryptionResult {
   layers?: EncryptionLayer[];
 }
 
-export interface DecryptionResult {
-  decrypted: string;
+export interface DecryptionResult<T = string> {
+  decrypted: T;
   algorithm: CipherAlgorithm;
   timestamp: number;
   performanceMetrics: PerformanceMetrics;
   layers?: EncryptionLayer[];
 }
 
+// Milliseconds spent deriving keys (PBKDF2, HKDF, ECDH), running the cipher itself, and converting
+// between text and bytes (UTF-8, base64, hex, the envelope)
+export interface PhaseTimings {
+  kdf: number;
+  cipher: number;
+  encoding: number;
+}
+
 export interface PerformanceMetrics {
+  // Total milliseconds, encryption or decryption
   encryptionTime: number;
-  memoryUsed: number;
+  phases: PhaseTimings;
+  // Input and output in bytes (UTF-8 for text)
   dataSize: number;
+  outputSize: number;
+  // outputSize / dataSize
+  expansionRatio: number;
   throughput: number;
 }
 
+// A layer as history records it: never its key
+export type HistoryLayer = Pick<EncryptionLayer, "algorithm" | "order">;
+
+// History is persisted, so entries hold no keys and no plaintext: layers are listed without their
+// keys and inputs only by size
 export interface HistoryEntry {
   id: string;
   type: "encrypt" | "decrypt";
   algorithm: CipherAlgorithm;
+  securityMode?: SecurityMode;
   timestamp: number;
   inputSize: number;
-  metrics: PerformanceMetrics;
+  // Absent when the operation failed
+  metrics?: PerformanceMetrics;
   success: boolean;
-  layers?: EncryptionLayer[];
+  error?: string;
+  layers?: HistoryLayer[];
+  // One per layer, in the order the layers ran
+  layerMetrics?: PerformanceMetrics[];
+}
+
+// Emitted by the layer pipeline after each completed layer (completed = 0 when it starts)
+export interface PipelineProgress {
+  operation: "encrypt" | "decrypt";
+  completed: number;
+  total: number;
+  algorithm?: CipherAlgorithm;
+}
+
+export interface PipelineOptions {
+  onProgress?: (progress: PipelineProgress) => void;
+  signal?: AbortSignal;
+}
+
+// The contents of a key file: one key per pipeline layer
+export interface KeyBundle {
+  securityMode: SecurityMode;
+  algorithms: CipherAlgorithm[];
+  keys: string[];
+  timestamp: number;
+}
+
+// Version 2 key file. Only the layer list is readable without the password; it is bound to
+// the ciphertext as associated data, and the checksum tells corruption apart from a wrong password.
+export interface ProtectedKeyFile {
+  version: 2;
+  securityMode: SecurityMode;
+  algorithms: CipherAlgorithm[];
+  timestamp: number;
+  kdf: KdfParams;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  checksum: string;
+}
+
+// A signature stored apart from the message it signs; carries the signer's public key
+export interface DetachedSignature {
+  format: "super-cipher/signature";
+  version: 1;
+  algorithm: "RSA-PSS-SHA256";
+  saltLength: number;
+  publicKey: string;
+  fingerprint: string;
+  signature: string;
+  signedAt: number;
+  file?: FileMetadata;
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  fingerprint: string;
+  signedAt: number;
+  // Whether the signer's public key is the one in the current key set; undefined when there is none
+  trustedKey?: boolean;
+}
+
+export type KeyStrength = "weak" | "moderate" | "strong";
+
+// A cipher's estimate for one of its keys; warnings name concrete weaknesses
+export interface KeyEstimate {
+  entropyBits: number;
+  warnings: string[];
+}
+
+export interface LayerKeyAnalysis extends KeyEstimate {
+  algorithm: CipherAlgorithm;
+  strength: KeyStrength;
+}
+
+export interface KeyAnalysisReport {
+  layers: LayerKeyAnalysis[];
+  // Brute-force work for all layer keys together, or for the passphrase when keys derive from one
+  combinedBits: number;
+  // What an attacker who breaks layers one at a time faces
+  strongestBits: number;
+  passphraseBits?: number;
+  strength: KeyStrength;
 }
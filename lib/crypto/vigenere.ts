@@ -1,55 +1,99 @@
+import { SecurityMode } from "./types";
+import { RandomSource, randomInt, secureRandom } from "./random";
+import { PhaseTimer } from "./metrics";
+import {
+  Alphabet,
+  DEFAULT_ALPHABET,
+  parseAlphabetKey,
+  formatAlphabetKey,
+  keySymbols,
+  formatKeySymbols,
+  substituteText,
+  substituteBytes,
+} from "./alphabet";
+
+// Vigenère adds the key symbol to each plaintext symbol. Beaufort subtracts the plaintext from the
+// key symbol, so the same operation decrypts. Autokey adds the keyword and then the plaintext itself.
+export type VigenereVariant = "vigenere" | "beaufort" | "autokey";
+
+const VARIANT_NAMES: Record<VigenereVariant, string> = {
+  vigenere: "Vigenère",
+  beaufort: "Beaufort",
+  autokey: "Autokey",
+};
+
 export class VigenereCipher {
-  generateKey(length: number = 16): string {
-    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-    let key = "";
-    for (let i = 0; i < length; i++) {
-      key += chars.charAt(Math.floor(Math.random() * chars.length));
+  constructor(private variant: VigenereVariant = "vigenere") {}
+
+  getKeyLength(mode: SecurityMode): number {
+    return mode === "high" ? 32 : mode === "balanced" ? 16 : 8;
+  }
+
+  generateKey(length: number = 16, source: RandomSource = secureRandom, alphabet: Alphabet = DEFAULT_ALPHABET): string {
+    const indices = Array.from({ length }, () => randomInt(alphabet.size, source));
+    return formatAlphabetKey(alphabet, formatKeySymbols(alphabet, indices));
+  }
+
+  // The key's alphabet and the index of each of its symbols
+  parseKey(key: string): { alphabet: Alphabet; shifts: number[] } {
+    const name = VARIANT_NAMES[this.variant];
+    const { alphabet, body } = parseAlphabetKey(key);
+    if (!body) {
+      throw new Error(`${name} cipher requires a non-empty key`);
     }
-    return key;
-  }
-
-  private processText(text: string, key: string, encrypt: boolean): string {
-    let result = "";
-    let keyIndex = 0;
-    const normalizedKey = key.toUpperCase();
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-
-      if (/[a-zA-Z]/.test(char)) {
-        const isUpperCase = char === char.toUpperCase();
-        const charCode = char.toUpperCase().charCodeAt(0) - 65;
-        const keyChar = normalizedKey.charCodeAt(keyIndex % normalizedKey.length) - 65;
-
-        let newCharCode;
-        if (encrypt) {
-          newCharCode = (charCode + keyChar) % 26;
-        } else {
-          newCharCode = (charCode - keyChar + 26) % 26;
-        }
-
-        const newChar = String.fromCharCode(newCharCode + 65);
-        result += isUpperCase ? newChar : newChar.toLowerCase();
-        keyIndex++;
-      } else {
-        result += char;
+    try {
+      return { alphabet, shifts: keySymbols(alphabet, body) };
+    } catch {
+      throw new Error(
+        alphabet.id === "bytes"
+          ? `Invalid ${name} key: byte-range keys must be hexadecimal`
+          : `Invalid ${name} key: must contain ${alphabet.name} letters only`
+      );
+    }
+  }
+
+  // Maps each symbol index to its output; `position` counts symbols, so other characters do not
+  // advance the key
+  private keyStream(shifts: number[], size: number, encrypt: boolean): (index: number, position: number) => number {
+    const mod = (value: number) => ((value % size) + size) % size;
+    switch (this.variant) {
+      case "vigenere":
+        return (index, position) => mod(index + (encrypt ? 1 : -1) * shifts[position % shifts.length]);
+      case "beaufort":
+        return (index, position) => mod(shifts[position % shifts.length] - index);
+      case "autokey": {
+        // Once the keyword runs out, the key continues with the plaintext; only the last
+        // keyword-length plaintext symbols are ever needed
+        const window = [...shifts];
+        return (index, position) => {
+          const slot = position % window.length;
+          const shift = window[slot];
+          const plain = encrypt ? index : mod(index - shift);
+          window[slot] = plain;
+          return encrypt ? mod(index + shift) : plain;
+        };
       }
     }
+  }
 
-    return result;
+  // Binary data: each key symbol's index is combined with a byte mod 256, whatever the alphabet
+  encryptBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    const { shifts } = this.parseKey(key);
+    return substituteBytes(data, this.keyStream(shifts, 256, true));
   }
 
-  encrypt(plaintext: string, key: string): string {
-    if (!key || key.length === 0) {
-      throw new Error("Vigenère cipher requires a non-empty key");
-    }
-    return this.processText(plaintext, key, true);
+  decryptBytes(data: Uint8Array, key: string): Uint8Array<ArrayBuffer> {
+    const { shifts } = this.parseKey(key);
+    return substituteBytes(data, this.keyStream(shifts, 256, false));
   }
 
-  decrypt(ciphertext: string, key: string): string {
-    if (!key || key.length === 0) {
-      throw new Error("Vigenère cipher requires a non-empty key");
-    }
-    return this.processText(ciphertext, key, false);
+  encrypt(plaintext: string, key: string, timer?: PhaseTimer): string {
+    const { alphabet, shifts } = this.parseKey(key);
+    return substituteText(plaintext, alphabet, this.keyStream(shifts, alphabet.size, true), false, timer);
+  }
+
+  decrypt(ciphertext: string, key: string, timer?: PhaseTimer): string {
+    const { alphabet, shifts } = this.parseKey(key);
+    return substituteText(ciphertext, alphabet, this.keyStream(shifts, alphabet.size, false), true, timer);
   }
 }
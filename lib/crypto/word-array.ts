@@ -0,0 +1,18 @@
+import CryptoJS from "crypto-js";
+
+// Conversions between Uint8Array and crypto-js WordArray (big-endian 32-bit words)
+export function bytesToWordArray(bytes: Uint8Array): CryptoJS.lib.WordArray {
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+export function wordArrayToBytes(wordArray: CryptoJS.lib.WordArray): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < wordArray.sigBytes; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+}
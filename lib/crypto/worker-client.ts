@@ -0,0 +1,234 @@
+import type { EncryptionManager } from "./encryption-manager";
+import type { BenchmarkSamples } from "./benchmark";
+import { AuthenticationError, CancelledError } from "./errors";
+import {
+  CipherAlgorithm,
+  SecurityMode,
+  PassphraseParams,
+  FileMetadata,
+  PipelineOptions,
+  PipelineProgress,
+} from "./types";
+
+type LegacyLayout = { algorithms: CipherAlgorithm[]; mode: SecurityMode };
+
+// Operations the worker exposes. Arguments must be structured-cloneable, so callbacks
+// and signals stay on this side and progress comes back as messages.
+export interface CryptoWorkerApi {
+  generateKey(algorithm: CipherAlgorithm, mode: SecurityMode): Promise<string>;
+  deriveKeys(
+    passphrase: string,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    params: PassphraseParams
+  ): Promise<string[]>;
+  multiLayerEncrypt(
+    plaintext: string,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    existingKeys: string[] | undefined,
+    options: { passphrase?: PassphraseParams; sampleIntermediates?: number }
+  ): ReturnType<EncryptionManager["multiLayerEncrypt"]>;
+  multiLayerEncryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    existingKeys: string[] | undefined,
+    options: { passphrase?: PassphraseParams; file?: FileMetadata; sampleIntermediates?: number }
+  ): ReturnType<EncryptionManager["multiLayerEncryptBytes"]>;
+  multiLayerDecrypt(
+    ciphertext: string,
+    keys: string[],
+    legacy?: LegacyLayout
+  ): ReturnType<EncryptionManager["multiLayerDecrypt"]>;
+  multiLayerDecryptBytes(
+    ciphertext: string,
+    keys: string[],
+    legacy?: LegacyLayout
+  ): ReturnType<EncryptionManager["multiLayerDecryptBytes"]>;
+  benchmark(
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    size: number,
+    warmup: number,
+    trials: number
+  ): Promise<BenchmarkSamples>;
+}
+
+export type WorkerMethod = keyof CryptoWorkerApi;
+
+export interface WorkerRequest<M extends WorkerMethod = WorkerMethod> {
+  id: number;
+  method: M;
+  args: Parameters<CryptoWorkerApi[M]>;
+}
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: PipelineProgress }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; error: { name: string; message: string } };
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+// Error classes callers branch on survive the trip across the worker boundary
+function reviveError(error: { name: string; message: string }): Error {
+  switch (error.name) {
+    case "AuthenticationError":
+      return new AuthenticationError(error.message);
+    case "CancelledError":
+      return new CancelledError(error.message);
+    default:
+      return new Error(error.message);
+  }
+}
+
+// Runs EncryptionManager work off the main thread. Aborting a call terminates the worker,
+// which is the only way to stop synchronous work such as RSA prime search; the worker is
+// started again lazily on the next call.
+export class CryptoWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  generateKey(algorithm: CipherAlgorithm, mode: SecurityMode, options: PipelineOptions = {}) {
+    return this.call("generateKey", [algorithm, mode], options);
+  }
+
+  deriveKeys(
+    passphrase: string,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    params: PassphraseParams,
+    options: PipelineOptions = {}
+  ) {
+    return this.call("deriveKeys", [passphrase, algorithms, mode, params], options);
+  }
+
+  // Same signatures as EncryptionManager; progress and cancellation ride in the options
+  multiLayerEncrypt(
+    plaintext: string,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    existingKeys?: string[],
+    { onProgress, signal, ...options }: { passphrase?: PassphraseParams; sampleIntermediates?: number } & PipelineOptions = {}
+  ) {
+    return this.call("multiLayerEncrypt", [plaintext, algorithms, mode, existingKeys, options], { onProgress, signal });
+  }
+
+  multiLayerEncryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    existingKeys?: string[],
+    {
+      onProgress,
+      signal,
+      ...options
+    }: { passphrase?: PassphraseParams; file?: FileMetadata; sampleIntermediates?: number } & PipelineOptions = {}
+  ) {
+    return this.call("multiLayerEncryptBytes", [data, algorithms, mode, existingKeys, options], { onProgress, signal });
+  }
+
+  multiLayerDecrypt(ciphertext: string, keys: string[], legacy?: LegacyLayout, options: PipelineOptions = {}) {
+    return this.call("multiLayerDecrypt", [ciphertext, keys, legacy], options);
+  }
+
+  multiLayerDecryptBytes(
+    ciphertext: string,
+    keys: string[],
+    legacy?: LegacyLayout,
+    options: PipelineOptions = {}
+  ) {
+    return this.call("multiLayerDecryptBytes", [ciphertext, keys, legacy], options);
+  }
+
+  // The payload is generated and timed inside the worker, so copying it across does not count
+  benchmark(
+    algorithms: CipherAlgorithm[],
+    mode: SecurityMode,
+    size: number,
+    warmup: number,
+    trials: number,
+    options: PipelineOptions = {}
+  ) {
+    return this.call("benchmark", [algorithms, mode, size, warmup, trials], options);
+  }
+
+  // Stops the worker and rejects every in-flight call
+  terminate(reason: Error = new CancelledError()): void {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
+  }
+
+  private call<M extends WorkerMethod>(
+    method: M,
+    args: Parameters<CryptoWorkerApi[M]>,
+    { onProgress, signal }: PipelineOptions
+  ): ReturnType<CryptoWorkerApi[M]> {
+    return new Promise<unknown>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const id = this.nextId++;
+      const cleanup = () => signal?.removeEventListener("abort", abort);
+      const abort = () => this.terminate();
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          cleanup();
+          resolve(result);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        onProgress,
+      });
+      signal?.addEventListener("abort", abort, { once: true });
+
+      const request: WorkerRequest<M> = { id, method, args };
+      this.getWorker().postMessage(request);
+    }) as ReturnType<CryptoWorkerApi[M]>;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./crypto.worker.ts", import.meta.url), { type: "module" });
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.terminate(new Error(`Crypto worker crashed: ${event.message}`));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(response: WorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    switch (response.type) {
+      case "progress":
+        request.onProgress?.(response.progress);
+        break;
+      case "result":
+        this.pending.delete(response.id);
+        request.resolve(response.result);
+        break;
+      case "error":
+        this.pending.delete(response.id);
+        request.reject(reviveError(response.error));
+        break;
+    }
+  }
+}
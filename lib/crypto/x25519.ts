@@ -0,0 +1,109 @@
+import { AESCipher } from "./aes";
+import { RandomSource } from "./random";
+import { Curve, CURVE_KEY_BYTES, CurveKeyPair, generateCurveKeyPair, importCurveKey, importRawKey } from "./curve25519";
+import { utf8Encode, utf8Decode, bytesToHex, bytesToBase64, bytesToBase64Url, base64ToBytes } from "./encoding";
+import { PhaseTimer, timePhase } from "./metrics";
+
+// ECIES output: X25519_PREFIX + base64(ephemeral public key (32) || AES-GCM payload)
+const X25519_PREFIX = "x25519:";
+const ECIES_INFO = "super-cipher/x25519-ecies/v1";
+const SHARED_KEY_INFO = "super-cipher/x25519-shared-key/v1";
+const CURVE: Curve = "X25519";
+
+export class X25519Cipher {
+  private aes = new AESCipher();
+
+  generateKeyPair(source?: RandomSource): Promise<CurveKeyPair> {
+    return generateCurveKeyPair(CURVE, source);
+  }
+
+  // Both parties get the same key from their own private key and the other's public key.
+  // The result is a 256-bit hex string, usable directly as an AES layer key.
+  async deriveSharedKey(privateKey: string, peerPublicKey: string): Promise<string> {
+    const secret = await this.agree(privateKey, peerPublicKey);
+    return bytesToHex(await this.hkdf(secret, new Uint8Array(0), SHARED_KEY_INFO));
+  }
+
+  private async agree(privateKey: string, publicKey: string): Promise<Uint8Array<ArrayBuffer>> {
+    const [priv, pub] = await Promise.all([
+      importCurveKey(CURVE, privateKey, "private", ["deriveBits"]),
+      importCurveKey(CURVE, publicKey, "public", []),
+    ]);
+    return new Uint8Array(await crypto.subtle.deriveBits({ name: CURVE, public: pub }, priv, 256));
+  }
+
+  private async hkdf(secret: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>, info: string): Promise<Uint8Array<ArrayBuffer>> {
+    const key = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info: utf8Encode(info) }, key, 256);
+    return new Uint8Array(bits);
+  }
+
+  // A fresh ephemeral key pair per message; the ECDH secret goes through HKDF (salted with the
+  // ephemeral public key) into a one-time AES-256-GCM key
+  async encryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    publicKey: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      // The ephemeral key pair, ECDH and HKDF together stand in for a KDF
+      const { ephemeralPublic, contentKey } = await timePhase(timer, "kdf", async () => {
+        const ephemeral = await this.generateKeyPair();
+        const ephemeralPublic = importRawKey(CURVE, ephemeral.publicKey, "public");
+        const secret = await this.agree(ephemeral.privateKey, publicKey);
+        return { ephemeralPublic, contentKey: await this.hkdf(secret, ephemeralPublic, ECIES_INFO) };
+      });
+      const payload = await this.aes.sealWithRawKey(contentKey, data, associatedData);
+
+      const output = new Uint8Array(CURVE_KEY_BYTES + payload.length);
+      output.set(ephemeralPublic);
+      output.set(payload, CURVE_KEY_BYTES);
+      return output;
+    } catch (error) {
+      throw new Error(`X25519 encryption failed: ${error}`);
+    }
+  }
+
+  async decryptBytes(
+    data: Uint8Array<ArrayBuffer>,
+    privateKey: string,
+    associatedData: string = "",
+    timer?: PhaseTimer
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    if (data.length < CURVE_KEY_BYTES + 12 + 16) {
+      throw new Error("X25519 decryption failed: ciphertext is truncated");
+    }
+    const ephemeralPublic = data.slice(0, CURVE_KEY_BYTES);
+    let contentKey: Uint8Array<ArrayBuffer>;
+    try {
+      contentKey = await timePhase(timer, "kdf", async () => {
+        const secret = await this.agree(privateKey, bytesToBase64Url(ephemeralPublic));
+        return this.hkdf(secret, ephemeralPublic, ECIES_INFO);
+      });
+    } catch (error) {
+      throw new Error(`X25519 decryption failed: ${error}`);
+    }
+    return this.aes.openWithRawKey(contentKey, data.slice(CURVE_KEY_BYTES), associatedData);
+  }
+
+  async encrypt(plaintext: string, publicKey: string, associatedData: string = "", timer?: PhaseTimer): Promise<string> {
+    const data = timePhase(timer, "encoding", () => utf8Encode(plaintext));
+    const sealed = await this.encryptBytes(data, publicKey, associatedData, timer);
+    return timePhase(timer, "encoding", () => X25519_PREFIX + bytesToBase64(sealed));
+  }
+
+  async decrypt(ciphertext: string, privateKey: string, associatedData: string = "", timer?: PhaseTimer): Promise<string> {
+    if (!ciphertext.startsWith(X25519_PREFIX)) {
+      throw new Error("X25519 decryption failed: not an X25519 ciphertext");
+    }
+    let data: Uint8Array<ArrayBuffer>;
+    try {
+      data = timePhase(timer, "encoding", () => base64ToBytes(ciphertext.substring(X25519_PREFIX.length)));
+    } catch {
+      throw new Error("X25519 decryption failed: ciphertext is not valid base64");
+    }
+    const decrypted = await this.decryptBytes(data, privateKey, associatedData, timer);
+    return timePhase(timer, "encoding", () => utf8Decode(decrypted));
+  }
+}
@@ -0,0 +1,381 @@
+import { cipherRegistry } from "./crypto/ciphers";
+import { HistoryEntry, HistoryLayer, PerformanceMetrics, PhaseTimings, SecurityMode } from "./crypto/types";
+
+// Operation history, kept in IndexedDB so it survives reloads. Every entry goes through
+// sanitizeHistoryEntry on the way in, which copies only the fields below: keys, plaintext and
+// ciphertext can never reach the database, even from an imported file.
+const DB_NAME = "super-cipher";
+const DB_VERSION = 1;
+const STORE = "history";
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 5000;
+
+const SECURITY_MODES: SecurityMode[] = ["high", "balanced", "lightweight"];
+
+export interface HistoryFilter {
+  algorithm?: string;
+  securityMode?: SecurityMode;
+  success?: boolean;
+  // Inclusive, in milliseconds since the epoch
+  from?: number;
+  to?: number;
+  search?: string;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  // Entries matching the filter, across all pages
+  total: number;
+}
+
+const finite = (value: unknown): number => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+
+function sanitizeMetrics(metrics: PerformanceMetrics): PerformanceMetrics {
+  const phases: Partial<PhaseTimings> = metrics.phases ?? {};
+  return {
+    encryptionTime: finite(metrics.encryptionTime),
+    phases: { kdf: finite(phases.kdf), cipher: finite(phases.cipher), encoding: finite(phases.encoding) },
+    dataSize: finite(metrics.dataSize),
+    outputSize: finite(metrics.outputSize),
+    expansionRatio: finite(metrics.expansionRatio),
+    throughput: finite(metrics.throughput),
+  };
+}
+
+// Layer errors can quote the key they rejected (an Enigma plugboard pair, say), so only the failing
+// layer is kept from an error message, and only when it names a registered cipher
+function genericError(type: HistoryEntry["type"], error: string): string {
+  const verb = type === "encrypt" ? "Encryption" : "Decryption";
+  const layer = /Layer (\d+)\/(\d+) \(([\w-]+)\)/i.exec(error);
+  if (layer && cipherRegistry.has(layer[3].toLowerCase())) {
+    return `${verb} failed at layer ${layer[1]}/${layer[2]} (${layer[3].toUpperCase()})`;
+  }
+  return `${verb} failed`;
+}
+
+// Builds a fresh entry from the recorded fields only; throws when required fields are missing
+export function sanitizeHistoryEntry(entry: HistoryEntry): HistoryEntry {
+  if (
+    typeof entry?.id !== "string" ||
+    (entry.type !== "encrypt" && entry.type !== "decrypt") ||
+    !cipherRegistry.has(entry.algorithm) ||
+    !Number.isFinite(entry.timestamp)
+  ) {
+    throw new Error("Invalid history entry: needs an id, a type, a known algorithm and a timestamp");
+  }
+
+  const sanitized: HistoryEntry = {
+    id: entry.id,
+    type: entry.type,
+    algorithm: entry.algorithm,
+    timestamp: entry.timestamp,
+    inputSize: finite(entry.inputSize),
+    success: entry.success === true,
+  };
+  if (SECURITY_MODES.includes(entry.securityMode as SecurityMode)) {
+    sanitized.securityMode = entry.securityMode;
+  }
+  if (entry.metrics) {
+    sanitized.metrics = sanitizeMetrics(entry.metrics);
+  }
+  if (typeof entry.error === "string" && entry.error !== "") {
+    sanitized.error = genericError(entry.type, entry.error);
+  }
+  if (Array.isArray(entry.layers)) {
+    sanitized.layers = entry.layers
+      .filter((layer) => cipherRegistry.has(layer?.algorithm))
+      .map((layer, index): HistoryLayer => ({ algorithm: layer.algorithm, order: finite(layer.order) || index + 1 }));
+  }
+  if (Array.isArray(entry.layerMetrics)) {
+    sanitized.layerMetrics = entry.layerMetrics.map(sanitizeMetrics);
+  }
+  return sanitized;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("timestamp", "timestamp");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(new Error(`Could not open the history database: ${request.error?.message}`));
+    };
+  });
+  return database;
+}
+
+// Runs `work` in one transaction and resolves once it has committed
+async function transact<T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = work(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+// Notifies after every add, delete, clear and import in this tab
+export function subscribeHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Newest first
+async function loadAll(): Promise<HistoryEntry[]> {
+  const entries = (await transact<HistoryEntry[]>("readonly", (store) => store.index("timestamp").getAll())) ?? [];
+  return entries.reverse();
+}
+
+// Stores the entries and trims the oldest beyond MAX_HISTORY_ENTRIES in the same transaction
+async function putEntries(entries: HistoryEntry[]): Promise<void> {
+  await transact("readwrite", (store) => {
+    entries.forEach((entry) => store.put(sanitizeHistoryEntry(entry)));
+
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - MAX_HISTORY_ENTRIES;
+      if (excess <= 0) return;
+      const cursor = store.index("timestamp").openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess-- <= 0) return;
+        cursor.result.delete();
+        cursor.result.continue();
+      };
+    };
+  });
+  notify();
+}
+
+export function addHistoryEntry(entry: HistoryEntry): Promise<void> {
+  return putEntries([entry]);
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await transact("readwrite", (store) => store.delete(id));
+  notify();
+}
+
+export async function clearHistory(): Promise<void> {
+  await transact("readwrite", (store) => store.clear());
+  notify();
+}
+
+function matches(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  if (
+    filter.algorithm &&
+    entry.algorithm !== filter.algorithm &&
+    !entry.layers?.some((layer) => layer.algorithm === filter.algorithm)
+  ) {
+    return false;
+  }
+  if (filter.securityMode && entry.securityMode !== filter.securityMode) return false;
+  if (filter.success !== undefined && entry.success !== filter.success) return false;
+  if (filter.from !== undefined && entry.timestamp < filter.from) return false;
+  if (filter.to !== undefined && entry.timestamp > filter.to) return false;
+
+  const search = filter.search?.trim().toLowerCase();
+  if (search) {
+    const text = [
+      entry.type,
+      entry.securityMode ?? "",
+      entry.success ? "success" : "failed",
+      entry.error ?? "",
+      ...[entry.algorithm, ...(entry.layers ?? []).map((layer) => layer.algorithm)].flatMap((algorithm) => [
+        algorithm,
+        cipherRegistry.get(algorithm).name,
+      ]),
+    ]
+      .join(" ")
+      .toLowerCase();
+    return search.split(/\s+/).every((term) => text.includes(term));
+  }
+  return true;
+}
+
+// Every matching entry, newest first
+export async function findHistory(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  return (await loadAll()).filter((entry) => matches(entry, filter));
+}
+
+// `page` counts from 0
+export async function queryHistory(filter: HistoryFilter, page: number, pageSize: number): Promise<HistoryPage> {
+  const entries = await findHistory(filter);
+  return { entries: entries.slice(page * pageSize, (page + 1) * pageSize), total: entries.length };
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "type",
+  "algorithm",
+  "security_mode",
+  "timestamp",
+  "input_size",
+  "success",
+  "error",
+  "layers",
+  "total_ms",
+  "kdf_ms",
+  "cipher_ms",
+  "encoding_ms",
+  "output_size",
+  "expansion_ratio",
+  "throughput",
+] as const;
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((entry) => {
+    const metrics = entry.metrics;
+    return [
+      entry.id,
+      entry.type,
+      entry.algorithm,
+      entry.securityMode ?? "",
+      new Date(entry.timestamp).toISOString(),
+      entry.inputSize,
+      entry.success ? "true" : "false",
+      entry.error ?? "",
+      (entry.layers ?? []).map((layer) => layer.algorithm).join(" "),
+      metrics?.encryptionTime ?? "",
+      metrics?.phases.kdf ?? "",
+      metrics?.phases.cipher ?? "",
+      metrics?.phases.encoding ?? "",
+      metrics?.outputSize ?? "",
+      metrics?.expansionRatio ?? "",
+      metrics?.throughput ?? "",
+    ]
+      .map(csvField)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify({ format: "super-cipher/history", version: 1, entries }, null, 2);
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+}
+
+function entriesFromCsv(text: string): HistoryEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  const missing = CSV_COLUMNS.filter((column) => !header?.includes(column));
+  if (!header || missing.length > 0) {
+    throw new Error(`Not a history CSV export: missing columns ${missing.join(", ")}`);
+  }
+  return rows.map((cells) => {
+    const cell = (column: (typeof CSV_COLUMNS)[number]) => cells[header.indexOf(column)] ?? "";
+    const number = (column: (typeof CSV_COLUMNS)[number]) => Number(cell(column));
+    const layers = cell("layers").split(/\s+/).filter(Boolean);
+    return {
+      id: cell("id"),
+      type: cell("type"),
+      algorithm: cell("algorithm"),
+      securityMode: cell("security_mode") || undefined,
+      timestamp: Date.parse(cell("timestamp")),
+      inputSize: number("input_size"),
+      success: cell("success") === "true",
+      error: cell("error") || undefined,
+      layers: layers.map((algorithm, index) => ({ algorithm, order: index + 1 })),
+      metrics:
+        cell("total_ms") === ""
+          ? undefined
+          : {
+              encryptionTime: number("total_ms"),
+              phases: { kdf: number("kdf_ms"), cipher: number("cipher_ms"), encoding: number("encoding_ms") },
+              dataSize: number("input_size"),
+              outputSize: number("output_size"),
+              expansionRatio: number("expansion_ratio"),
+              throughput: number("throughput"),
+            },
+    } as HistoryEntry;
+  });
+}
+
+// Accepts this module's JSON or CSV exports. Entries are sanitized like new ones, and an entry with
+// the same id as a stored one replaces it. Resolves with the number of entries imported.
+export async function importHistory(text: string): Promise<number> {
+  let entries: HistoryEntry[];
+  if (text.trimStart().startsWith("{")) {
+    let parsed: { format?: string; entries?: HistoryEntry[] };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("History file is not valid JSON");
+    }
+    if (parsed.format !== "super-cipher/history" || !Array.isArray(parsed.entries)) {
+      throw new Error("Not a history JSON export");
+    }
+    entries = parsed.entries;
+  } else {
+    entries = entriesFromCsv(text);
+  }
+
+  const sanitized = entries.map((entry, index) => {
+    try {
+      return sanitizeHistoryEntry(entry);
+    } catch (error) {
+      throw new Error(`Entry ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  await putEntries(sanitized);
+  return sanitized.length;
+}
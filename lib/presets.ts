@@ -0,0 +1,93 @@
+import { EncryptionManager } from "./crypto/encryption-manager";
+import { cipherRegistry } from "./crypto/ciphers";
+import { CipherAlgorithm, SecurityMode } from "./crypto/types";
+
+// A saved layer stack. Presets never contain keys.
+export interface PipelinePreset {
+  name: string;
+  securityMode: SecurityMode;
+  algorithms: CipherAlgorithm[];
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = "super-cipher/pipeline-presets";
+const SECURITY_MODES: SecurityMode[] = ["high", "balanced", "lightweight"];
+
+// The recommended stack of each security mode
+const manager = new EncryptionManager();
+export const BUILT_IN_PRESETS: PipelinePreset[] = [
+  { name: "High Security", securityMode: "high" as const },
+  { name: "Balanced", securityMode: "balanced" as const },
+  { name: "Lightweight", securityMode: "lightweight" as const },
+].map((preset) => ({ ...preset, algorithms: manager.getRecommendedAlgorithms(preset.securityMode), builtIn: true }));
+
+function loadUserPresets(): PipelinePreset[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter(
+          (preset): preset is PipelinePreset =>
+            typeof preset?.name === "string" &&
+            SECURITY_MODES.includes(preset?.securityMode) &&
+            Array.isArray(preset?.algorithms) &&
+            preset.algorithms.every((algorithm: string) => cipherRegistry.has(algorithm))
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// loadPresets must return the same array until presets change, as React compares snapshots by identity
+let cachedPresets: PipelinePreset[] | null = null;
+const listeners = new Set<() => void>();
+
+function storeUserPresets(presets: PipelinePreset[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  cachedPresets = null;
+  listeners.forEach((listener) => listener());
+}
+
+export function loadPresets(): PipelinePreset[] {
+  cachedPresets ??= [...BUILT_IN_PRESETS, ...loadUserPresets()];
+  return cachedPresets;
+}
+
+// Notifies on saves and deletes in this tab and on edits from other tabs
+export function subscribePresets(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedPresets = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+// Saving under an existing name replaces that preset
+export function savePreset(preset: Omit<PipelinePreset, "builtIn">): PipelinePreset[] {
+  const name = preset.name.trim();
+  if (name === "") {
+    throw new Error("Preset name must not be empty");
+  }
+  if (BUILT_IN_PRESETS.some((builtIn) => builtIn.name === name)) {
+    throw new Error(`"${name}" is a built-in preset. Choose another name.`);
+  }
+  if (preset.algorithms.length === 0) {
+    throw new Error("A preset needs at least one layer");
+  }
+
+  const presets = loadUserPresets().filter((existing) => existing.name !== name);
+  storeUserPresets([...presets, { name, securityMode: preset.securityMode, algorithms: preset.algorithms }]);
+  return loadPresets();
+}
+
+export function deletePreset(name: string): PipelinePreset[] {
+  storeUserPresets(loadUserPresets().filter((preset) => preset.name !== name));
+  return loadPresets();
+}